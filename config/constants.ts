@@ -27,6 +27,34 @@ export const CACHE_LIMITS = {
   GLOBAL_MAX_CACHE_SIZE: 500 * 1024 * 1024,
 } as const;
 
+/**
+ * Environment variables read by the storage drivers
+ */
+export const ENVIRONMENT = {
+  /** Overrides `CACHE_LIMITS.GLOBAL_MAX_CACHE_SIZE`, in megabytes */
+  GLOBAL_MAX_CACHE_MB: 'N8N_BINARY_TO_URL_GLOBAL_MAX_CACHE_MB',
+  /** Directory for memory storage snapshots; snapshots are off when unset */
+  SNAPSHOT_DIR: 'N8N_BINARY_TO_URL_SNAPSHOT_DIR',
+  /** Overrides `SNAPSHOT.DEFAULT_INTERVAL`, in seconds */
+  SNAPSHOT_INTERVAL_SECONDS: 'N8N_BINARY_TO_URL_SNAPSHOT_INTERVAL_SECONDS',
+  /** Comma-separated proxy addresses or CIDR ranges whose `X-Forwarded-For` is honoured */
+  TRUSTED_PROXIES: 'N8N_BINARY_TO_URL_TRUSTED_PROXIES',
+} as const;
+
+/**
+ * Memory storage snapshots, see `drivers/MemorySnapshot.ts`
+ */
+export const SNAPSHOT = {
+  /** Time between periodic snapshots: 1 minute */
+  DEFAULT_INTERVAL: 60 * 1000,
+  /** Bumped when the manifest layout changes; other versions are ignored on restore */
+  VERSION: 1,
+  /** File listing every snapshotted file and its metadata */
+  MANIFEST_FILE_NAME: 'snapshot.json',
+  /** Subdirectory holding file contents, one `{contentHash}.bin` per unique blob */
+  BLOB_DIRECTORY_NAME: 'blobs',
+} as const;
+
 /**
  * Cleanup configuration
  */
@@ -39,6 +67,72 @@ export const CLEANUP = {
   VALIDATION_THRESHOLD: 1024, // 1 KB
 } as const;
 
+/**
+ * Node operations
+ */
+export const OPERATIONS = {
+  UPLOAD: 'upload',
+  DELETE: 'delete',
+  GET_INFO: 'getInfo',
+  LIST: 'list',
+  GET_STATS: 'getStats',
+  DOWNLOAD: 'download',
+  UPDATE_EXPIRY: 'updateExpiry',
+} as const;
+
+/**
+ * Upload modes
+ */
+export const UPLOAD_MODES = {
+  /** Store each item's file under its own URL */
+  PER_ITEM: 'perItem',
+  /** Zip every item's files into one archive with a single URL */
+  BUNDLE: 'bundle',
+} as const;
+
+/**
+ * Bundle (ZIP archive) uploads
+ */
+export const BUNDLE = {
+  /** Archive name used when Options → File Name is empty */
+  DEFAULT_FILE_NAME: 'files.zip',
+  CONTENT_TYPE: 'application/zip',
+} as const;
+
+/**
+ * Storage driver configuration
+ */
+export const STORAGE = {
+  /** Keep files in the n8n process heap */
+  DRIVER_MEMORY: 'memory',
+  /** Keep files on the local filesystem */
+  DRIVER_FILESYSTEM: 'filesystem',
+  /** Directory name under the OS temp dir used when no storage directory is configured */
+  DEFAULT_DIRECTORY_NAME: 'n8n-binary-to-url',
+  /** File extension for stored file contents */
+  DATA_FILE_EXTENSION: '.bin',
+  /** File extension for stored file metadata */
+  META_FILE_EXTENSION: '.json',
+  /** Bytes read from disk at a time when streaming a stored file */
+  READ_CHUNK_SIZE: 64 * 1024,
+} as const;
+
+/**
+ * File key formats
+ */
+export const FILE_KEY = {
+  /** Letters, digits, `-` and `_`, starting with a letter or digit; UUIDs match too */
+  PATTERN: /^[A-Za-z0-9][A-Za-z0-9_-]*$/,
+  MAX_LENGTH: 128,
+  /** Custom keys leave room for a `-N` suffix within `MAX_LENGTH` */
+  MAX_CUSTOM_LENGTH: 120,
+  /** Highest suffix tried before a conflicting custom key fails */
+  MAX_SUFFIX: 1000,
+  /** Length of short keys (base62, about 59 bits) */
+  SHORT_LENGTH: 10,
+  SHORT_ALPHABET: '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz',
+} as const;
+
 /**
  * Allowed MIME types for file uploads
  * Grouped by category for easier maintenance
@@ -90,14 +184,175 @@ export const DOWNLOAD_MIME_TYPES: readonly string[] = [
   'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
 ];
 
+/**
+ * MIME type patterns that browsers render without running scripts
+ * Every other type is served with the sandboxing Content-Security-Policy
+ */
+export const PASSIVE_MIME_TYPES: readonly string[] = [
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'image/avif',
+  'image/bmp',
+  'image/x-icon',
+  'image/vnd.microsoft.icon',
+  'audio/*',
+  'video/*',
+  'application/pdf',
+];
+
 /**
  * HTTP headers for file downloads
  */
 export const HTTP_HEADERS = {
-  /** Cache-Control header value for file downloads */
-  CACHE_CONTROL: 'public, max-age=86400', // 24 hours
+  /** Cache-Control directives for file downloads; max-age is derived from the remaining TTL */
+  CACHE_CONTROL: 'public',
+  /** Cache-Control header value for responses that change on every request */
+  CACHE_CONTROL_NO_STORE: 'no-store',
   /** Content-Disposition for inline viewing */
   DISPOSITION_INLINE: 'inline',
   /** Content-Disposition for download */
   DISPOSITION_ATTACHMENT: 'attachment',
+  /** Accept-Ranges header value advertising byte range support */
+  ACCEPT_RANGES: 'bytes',
+  /** Accept-Ranges header value for files that are always sent whole */
+  ACCEPT_RANGES_NONE: 'none',
+  /** Vary header for responses whose encoding depends on the request */
+  VARY_ACCEPT_ENCODING: 'Accept-Encoding',
+  /** X-Content-Type-Options value stopping browsers from guessing the type */
+  NO_SNIFF: 'nosniff',
+  /** Content-Security-Policy for scriptable file types (HTML, SVG, XML, ...): render the contents, never run their scripts */
+  FILE_CONTENT_SECURITY_POLICY: "default-src 'none'; style-src 'unsafe-inline'; sandbox",
+} as const;
+
+/**
+ * Password and token protected files
+ */
+export const ACCESS_PROTECTION = {
+  /** Random salt stored with each hash, in bytes */
+  SALT_LENGTH: 16,
+  /** Length of the scrypt hash, in bytes */
+  KEY_LENGTH: 32,
+  /** Wrong credentials in a row before a file is locked */
+  MAX_FAILED_ATTEMPTS: 5,
+  /** How long a locked file rejects all credentials, and how long failures are remembered: 15 minutes */
+  LOCKOUT_DURATION: 15 * 60 * 1000,
+  /** Realm sent in WWW-Authenticate challenges */
+  REALM: 'file',
+} as const;
+
+/**
+ * HTTP response compression
+ */
+export const COMPRESSION = {
+  /** Files below this size are never compressed on the fly */
+  MIN_SIZE: 1024,
+  /** Files above this size are sent uncompressed rather than compressed on the fly */
+  MAX_SIZE: 16 * 1024 * 1024,
+  /** Total bytes of compressed responses kept for reuse, shared by all workflows */
+  CACHE_MAX_SIZE: 64 * 1024 * 1024,
+  /** zlib level for gzip */
+  GZIP_LEVEL: 6,
+  /** Brotli quality; the maximum (11) is too slow for on-the-fly use */
+  BROTLI_QUALITY: 5,
+  /** Compressible types outside `text/*`, `*+json` and `*+xml` */
+  MIME_TYPES: [
+    'application/json',
+    'application/xml',
+    'application/javascript',
+    'application/x-ndjson',
+    'image/svg+xml',
+    'image/bmp',
+  ] as readonly string[],
+} as const;
+
+/**
+ * Magic-byte content type detection
+ */
+export const CONTENT_SNIFFING = {
+  /** Number of leading bytes inspected */
+  SAMPLE_SIZE: 1024,
+  /** Type used when nothing is declared or detected */
+  FALLBACK_MIME_TYPE: 'application/octet-stream',
+} as const;
+
+/**
+ * Per-file download analytics
+ */
+export const ANALYTICS = {
+  /** Recent requests kept per file */
+  ACCESS_LOG_SIZE: 20,
+  /** Longer User-Agent headers are truncated in the access log */
+  MAX_USER_AGENT_LENGTH: 256,
+} as const;
+
+/**
+ * Prometheus metrics endpoint
+ */
+export const METRICS = {
+  /** Webhook path serving the metrics, next to `file` */
+  PATH: 'metrics',
+  /** Prefix of every metric name */
+  PREFIX: 'binary_to_url',
+  /** Prometheus text exposition format */
+  CONTENT_TYPE: 'text/plain; version=0.0.4; charset=utf-8',
+} as const;
+
+/**
+ * Signed URL configuration
+ */
+export const URL_SIGNING = {
+  /** HMAC digest algorithm */
+  ALGORITHM: 'sha256',
+  /** Credential type holding the signing secret */
+  CREDENTIAL_NAME: 'binaryToUrlSigningApi',
+  /** Default signed link lifetime in seconds */
+  DEFAULT_LINK_TTL: 600,
+  /** Minimum signing secret length accepted by the credential test */
+  MIN_SECRET_LENGTH: 16,
+} as const;
+
+/**
+ * HTTP Range request configuration
+ */
+export const RANGE_REQUESTS = {
+  /** Maximum ranges accepted in one Range header; larger requests get the full file */
+  MAX_RANGES: 16,
+} as const;
+
+/**
+ * Resized and converted images served for the `w`, `h`, `fit` and `format` query parameters
+ */
+export const IMAGE_VARIANTS = {
+  /** Optional image library, loaded on first use; not a dependency of this package */
+  LIBRARY: 'sharp',
+  /** Largest width or height a variant may ask for, in pixels */
+  MAX_DIMENSION: 4096,
+  /** Originals with more pixels than this are not decoded */
+  MAX_INPUT_PIXELS: 50_000_000,
+  /** Originals larger than this are not resized, in bytes */
+  MAX_INPUT_SIZE: 25 * 1024 * 1024,
+  /** Image types that can be resized, with the library's format name for each */
+  INPUT_FORMATS: {
+    'image/jpeg': 'jpeg',
+    'image/png': 'png',
+    'image/webp': 'webp',
+    'image/avif': 'avif',
+    'image/gif': 'gif',
+    'image/tiff': 'tiff',
+  } as Readonly<Record<string, string>>,
+  /** Values accepted by `format`, with the MIME type of the result */
+  OUTPUT_FORMATS: {
+    jpeg: 'image/jpeg',
+    png: 'image/png',
+    webp: 'image/webp',
+    avif: 'image/avif',
+  } as Readonly<Record<string, string>>,
+  /** Values accepted by `fit` */
+  FITS: ['cover', 'contain', 'fill', 'inside', 'outside'] as readonly string[],
+  /** Keep the aspect ratio and never crop unless asked to */
+  DEFAULT_FIT: 'inside',
+  /** Joins a file key and a variant id; file keys cannot contain it, so variants have no URL */
+  KEY_SEPARATOR: '.',
 } as const;
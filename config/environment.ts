@@ -0,0 +1,66 @@
+import { CACHE_LIMITS, ENVIRONMENT, SNAPSHOT } from './constants.js';
+
+/**
+ * Read a non-empty environment variable
+ */
+function readVariable(name: string): string | undefined {
+  // eslint-disable-next-line @n8n/community-nodes/no-restricted-globals -- host-level settings are chosen by the n8n operator
+  const value = process.env[name]?.trim();
+  return value ? value : undefined;
+}
+
+/**
+ * Read a positive number from an environment variable
+ */
+function readPositiveNumber(name: string): number | undefined {
+  const value = Number(readVariable(name));
+  return Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+/**
+ * Read a positive size in megabytes from an environment variable, in bytes
+ */
+function readMegabytes(name: string): number | undefined {
+  const value = readPositiveNumber(name);
+  return value !== undefined ? Math.floor(value * 1024 * 1024) : undefined;
+}
+
+/**
+ * Global storage cap in bytes
+ *
+ * `CACHE_LIMITS.GLOBAL_MAX_CACHE_SIZE` unless overridden with the
+ * `N8N_BINARY_TO_URL_GLOBAL_MAX_CACHE_MB` environment variable.
+ */
+export function getGlobalMaxCacheSize(): number {
+  return readMegabytes(ENVIRONMENT.GLOBAL_MAX_CACHE_MB) ?? CACHE_LIMITS.GLOBAL_MAX_CACHE_SIZE;
+}
+
+/**
+ * Directory memory storage snapshots are written to, from `N8N_BINARY_TO_URL_SNAPSHOT_DIR`
+ * @returns undefined when snapshots are disabled
+ */
+export function getSnapshotDirectory(): string | undefined {
+  return readVariable(ENVIRONMENT.SNAPSHOT_DIR);
+}
+
+/**
+ * Milliseconds between periodic memory storage snapshots
+ *
+ * `SNAPSHOT.DEFAULT_INTERVAL` unless overridden with the
+ * `N8N_BINARY_TO_URL_SNAPSHOT_INTERVAL_SECONDS` environment variable.
+ */
+export function getSnapshotInterval(): number {
+  const seconds = readPositiveNumber(ENVIRONMENT.SNAPSHOT_INTERVAL_SECONDS);
+  return seconds !== undefined ? Math.floor(seconds * 1000) : SNAPSHOT.DEFAULT_INTERVAL;
+}
+
+/**
+ * Proxies whose `X-Forwarded-For` header is honoured, from `N8N_BINARY_TO_URL_TRUSTED_PROXIES`
+ * @returns the comma-separated entries, unvalidated; empty when no proxy is trusted
+ */
+export function getTrustedProxies(): string[] {
+  return (readVariable(ENVIRONMENT.TRUSTED_PROXIES) ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry !== '');
+}
@@ -0,0 +1,27 @@
+import type { Icon, ICredentialType, INodeProperties } from 'n8n-workflow';
+
+/**
+ * Secret used to sign and verify download URLs
+ */
+export class BinaryToUrlSigningApi implements ICredentialType {
+  name = 'binaryToUrlSigningApi';
+
+  displayName = 'Binary to URL Signing API';
+
+  icon: Icon = 'file:../nodes/BinaryToUrl/BinaryToUrl.svg';
+
+  documentationUrl = 'https://github.com/ksxh0524/n8n-nodes-binary-to-url#signed-urls';
+
+  properties: INodeProperties[] = [
+    {
+      displayName: 'Signing Secret',
+      name: 'secret',
+      type: 'string',
+      typeOptions: { password: true },
+      required: true,
+      default: '',
+      description:
+        'Secret key used to compute HMAC signatures for download URLs. Changing it invalidates all issued links.',
+    },
+  ];
+}
@@ -0,0 +1,127 @@
+export interface HeapEntry {
+  workflowId: string;
+  fileKey: string;
+  priority: number;
+}
+
+/**
+ * Binary min-heap of stored files ordered by a numeric priority
+ *
+ * An index from file to heap position makes removal and priority updates O(log n).
+ */
+export class FileHeap {
+  private entries: HeapEntry[] = [];
+  private readonly positions = new Map<string, number>();
+
+  private static key(workflowId: string, fileKey: string): string {
+    return `${workflowId}:${fileKey}`;
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  push(workflowId: string, fileKey: string, priority: number): void {
+    const key = FileHeap.key(workflowId, fileKey);
+    if (this.positions.has(key)) {
+      this.update(workflowId, fileKey, priority);
+      return;
+    }
+
+    this.entries.push({ workflowId, fileKey, priority });
+    this.positions.set(key, this.entries.length - 1);
+    this.siftUp(this.entries.length - 1);
+  }
+
+  /**
+   * Change a file's priority, restoring the heap order around it
+   */
+  update(workflowId: string, fileKey: string, priority: number): void {
+    const index = this.positions.get(FileHeap.key(workflowId, fileKey));
+    if (index === undefined) {
+      return;
+    }
+
+    this.entries[index].priority = priority;
+    this.siftDown(index);
+    this.siftUp(index);
+  }
+
+  remove(workflowId: string, fileKey: string): boolean {
+    const index = this.positions.get(FileHeap.key(workflowId, fileKey));
+    if (index === undefined) {
+      return false;
+    }
+
+    this.removeAt(index);
+    return true;
+  }
+
+  peek(): HeapEntry | undefined {
+    return this.entries[0];
+  }
+
+  pop(): HeapEntry | undefined {
+    return this.entries.length > 0 ? this.removeAt(0) : undefined;
+  }
+
+  clear(): void {
+    this.entries = [];
+    this.positions.clear();
+  }
+
+  private removeAt(index: number): HeapEntry {
+    const entry = this.entries[index];
+    const lastIndex = this.entries.length - 1;
+    this.swap(index, lastIndex);
+    this.entries.pop();
+    this.positions.delete(FileHeap.key(entry.workflowId, entry.fileKey));
+
+    if (index < this.entries.length) {
+      this.siftDown(index);
+      this.siftUp(index);
+    }
+    return entry;
+  }
+
+  private swap(i: number, j: number): void {
+    const temp = this.entries[i];
+    this.entries[i] = this.entries[j];
+    this.entries[j] = temp;
+
+    this.positions.set(FileHeap.key(this.entries[i].workflowId, this.entries[i].fileKey), i);
+    this.positions.set(FileHeap.key(this.entries[j].workflowId, this.entries[j].fileKey), j);
+  }
+
+  private siftUp(index: number): void {
+    while (index > 0) {
+      const parentIndex = Math.floor((index - 1) / 2);
+      if (this.entries[parentIndex].priority <= this.entries[index].priority) {
+        break;
+      }
+      this.swap(parentIndex, index);
+      index = parentIndex;
+    }
+  }
+
+  private siftDown(index: number): void {
+    const length = this.entries.length;
+    while (true) {
+      let smallest = index;
+      const left = 2 * index + 1;
+      const right = 2 * index + 2;
+
+      if (left < length && this.entries[left].priority < this.entries[smallest].priority) {
+        smallest = left;
+      }
+      if (right < length && this.entries[right].priority < this.entries[smallest].priority) {
+        smallest = right;
+      }
+      if (smallest === index) {
+        break;
+      }
+      this.swap(index, smallest);
+      index = smallest;
+    }
+  }
+}
@@ -0,0 +1,930 @@
+import { createHash } from 'crypto';
+// eslint-disable-next-line @n8n/community-nodes/no-restricted-imports -- disk storage is opt-in and self-hosted only
+import { createWriteStream, promises as fs } from 'fs';
+// eslint-disable-next-line @n8n/community-nodes/no-restricted-imports -- disk storage is opt-in and self-hosted only
+import * as path from 'path';
+import type { Logger } from 'n8n-workflow';
+// eslint-disable-next-line @n8n/community-nodes/no-restricted-imports -- disk storage is opt-in and self-hosted only
+import { Readable, Transform } from 'stream';
+// eslint-disable-next-line @n8n/community-nodes/no-restricted-imports -- disk storage is opt-in and self-hosted only
+import { pipeline } from 'stream/promises';
+import { TTL, CACHE_LIMITS, CLEANUP, STORAGE } from '../config/constants.js';
+import { getGlobalMaxCacheSize } from '../config/environment.js';
+import {
+  StorageQuotaError,
+  addAccessRecord,
+  countAccess,
+  createStorageCounters,
+  evictionPriority,
+  resolveFileKey,
+  slideExpiry,
+  type AccessRecord,
+  type AccessRules,
+  type AccessSecret,
+  type ContentEncoding,
+  type DownloadResult,
+  type EvictionStrategy,
+  type FileAnalytics,
+  type FileListEntry,
+  type FileMetadata,
+  type OpenedFile,
+  type StorageDriver,
+  type StorageCounters,
+  type StorageStats,
+  type StorageUsage,
+  type UploadOptions,
+  type UploadResult,
+} from './StorageDriver.js';
+
+/**
+ * Metadata persisted next to every stored file
+ */
+interface FileEntry {
+  fileKey: string;
+  contentType: string;
+  contentHash: string;
+  uploadedAt: number;
+  expiresAt: number;
+  size: number;
+  maxDownloads?: number;
+  remainingDownloads?: number;
+  fileName?: string;
+  disposition?: UploadOptions['disposition'];
+  /** Not written on every download, so it may be older or unset after a restart */
+  lastAccessedAt?: number;
+  contentEncoding?: ContentEncoding;
+  /** Uncompressed size when `contentEncoding` is set; `size` is always the stored size */
+  decodedSize?: number;
+  slidingTtl?: number;
+  analytics?: FileAnalytics;
+  accessSecrets?: AccessSecret[];
+  accessRules?: AccessRules;
+}
+
+interface WorkflowIndex {
+  files: Map<string, FileEntry>;
+  cacheSize: number;
+}
+
+/**
+ * Copy a stream to a file, hashing it on the way and failing unless it is exactly `expectedSize` bytes
+ */
+async function writeStream(
+  filePath: string,
+  stream: NodeJS.ReadableStream,
+  expectedSize: number
+): Promise<{ contentHash: string; size: number }> {
+  const hash = createHash('sha256');
+  let size = 0;
+
+  const meter = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      size += chunk.length;
+      if (size > expectedSize) {
+        callback(new Error(`Stream is longer than its declared size of ${expectedSize} bytes`));
+        return;
+      }
+      hash.update(chunk);
+      callback(null, chunk);
+    },
+    // A stream that ends early was cut off, so its file must not be stored as complete
+    flush(callback) {
+      callback(
+        size < expectedSize
+          ? new Error(`Stream ended after ${size} of its declared ${expectedSize} bytes`)
+          : null
+      );
+    },
+  });
+
+  await pipeline(stream, meter, createWriteStream(filePath));
+  return { contentHash: hash.digest('hex'), size };
+}
+
+/**
+ * Read bytes `start` to `end` (inclusive) of an open file
+ *
+ * Unlike `FileHandle.createReadStream()`, ending or destroying the stream leaves the handle
+ * open, so several ranges can be read from the same version of a file.
+ */
+async function* readFileRange(
+  handle: fs.FileHandle,
+  start: number,
+  end: number
+): AsyncGenerator<Buffer> {
+  let position = start;
+  while (position <= end) {
+    const length = Math.min(STORAGE.READ_CHUNK_SIZE, end - position + 1);
+    const { bytesRead, buffer } = await handle.read(Buffer.alloc(length), 0, length, position);
+    if (bytesRead === 0) {
+      return;
+    }
+    position += bytesRead;
+    yield buffer.subarray(0, bytesRead);
+  }
+}
+
+/**
+ * Write to a temp file and rename it, so readers never see a truncated file
+ */
+async function writeFileAtomic(filePath: string, data: string): Promise<void> {
+  const tempPath = `${filePath}.tmp`;
+  await fs.writeFile(tempPath, data);
+  await fs.rename(tempPath, filePath);
+}
+
+/**
+ * A metadata write that is queued or running
+ */
+interface MetadataWrite {
+  entry: FileEntry;
+  started: boolean;
+  done: Promise<void>;
+}
+
+/**
+ * Disk-backed storage driver
+ *
+ * File contents are written to `{directory}/{workflowId}/{fileKey}.bin` with metadata in a
+ * sibling `.json` file. Metadata is also kept in an in-memory index so that quota checks and
+ * stats never touch the disk. The index is rebuilt from the metadata files on first use, so
+ * unexpired files survive an n8n restart.
+ *
+ * TTL, per-workflow quota and global quota behave exactly like `MemoryStorage`.
+ */
+export class FileSystemStorage implements StorageDriver {
+  private readonly workflowIndexes = new Map<string, WorkflowIndex>();
+  private globalCacheSize = 0;
+  private readonly globalMaxCacheSize = getGlobalMaxCacheSize();
+  private nextGlobalExpirationTime?: number;
+  private loadPromise?: Promise<void>;
+  private logger?: Logger;
+
+  // Files deleted after reaching their download limit, kept until their TTL to answer 410
+  private readonly exhaustedFiles = new Map<string, number>();
+
+  // Event totals since start; per-file analytics are persisted with the metadata
+  private readonly counters = new Map<string, StorageCounters>();
+  private readonly totalCounters: StorageCounters = createStorageCounters();
+
+  // Concurrency control: per-workflow upload locks
+  private readonly uploadLocks = new Map<string, Promise<unknown>>();
+
+  // Latest metadata write per `{workflowId}:{fileKey}`, so writes to one file never overlap
+  private readonly metadataWrites = new Map<string, MetadataWrite>();
+
+  // Overwrites between renaming their data file into place and swapping the index entry,
+  // per `{workflowId}:{fileKey}`; see readLiveVersion()
+  private readonly replacements = new Map<string, Promise<void>>();
+
+  constructor(private readonly directory: string) {}
+
+  /**
+   * Set logger instance for FileSystemStorage warnings
+   */
+  setLogger(logger: Logger): void {
+    this.logger = logger;
+  }
+
+  private warn(message: string): void {
+    if (this.logger) {
+      this.logger.warn(message);
+    }
+  }
+
+  private getWorkflowDirectory(workflowId: string): string {
+    return path.join(this.directory, encodeURIComponent(workflowId));
+  }
+
+  private getDataPath(workflowId: string, fileKey: string): string {
+    return path.join(this.getWorkflowDirectory(workflowId), fileKey + STORAGE.DATA_FILE_EXTENSION);
+  }
+
+  private getMetaPath(workflowId: string, fileKey: string): string {
+    return path.join(this.getWorkflowDirectory(workflowId), fileKey + STORAGE.META_FILE_EXTENSION);
+  }
+
+  private getCounters(workflowId: string): StorageCounters {
+    let counters = this.counters.get(workflowId);
+    if (!counters) {
+      counters = createStorageCounters();
+      this.counters.set(workflowId, counters);
+    }
+    return counters;
+  }
+
+  private count(workflowId: string, counter: keyof StorageCounters): void {
+    this.getCounters(workflowId)[counter]++;
+    this.totalCounters[counter]++;
+  }
+
+  private getOrCreateWorkflowIndex(workflowId: string): WorkflowIndex {
+    if (!this.workflowIndexes.has(workflowId)) {
+      this.workflowIndexes.set(workflowId, { files: new Map(), cacheSize: 0 });
+    }
+    return this.workflowIndexes.get(workflowId)!;
+  }
+
+  private addToIndex(workflowId: string, entry: FileEntry): void {
+    const workflowIndex = this.getOrCreateWorkflowIndex(workflowId);
+    workflowIndex.files.set(entry.fileKey, entry);
+    workflowIndex.cacheSize += entry.size;
+    this.globalCacheSize += entry.size;
+
+    if (!this.nextGlobalExpirationTime || entry.expiresAt < this.nextGlobalExpirationTime) {
+      this.nextGlobalExpirationTime = entry.expiresAt;
+    }
+  }
+
+  private removeFromIndex(workflowId: string, fileKey: string): FileEntry | undefined {
+    const workflowIndex = this.workflowIndexes.get(workflowId);
+    const entry = workflowIndex?.files.get(fileKey);
+    if (!workflowIndex || !entry) {
+      return undefined;
+    }
+
+    workflowIndex.files.delete(fileKey);
+    workflowIndex.cacheSize = Math.max(0, workflowIndex.cacheSize - entry.size);
+    this.globalCacheSize = Math.max(0, this.globalCacheSize - entry.size);
+
+    if (workflowIndex.files.size === 0) {
+      this.workflowIndexes.delete(workflowId);
+    }
+    return entry;
+  }
+
+  /**
+   * Save a file's metadata after any earlier write to it
+   *
+   * Downloads update the metadata on every request, so a write that has not started yet
+   * is shared by later changes to the same entry: it serializes the entry when it runs.
+   */
+  private writeEntry(workflowId: string, entry: FileEntry): Promise<void> {
+    const key = `${workflowId}:${entry.fileKey}`;
+    const pending = this.metadataWrites.get(key);
+    if (pending && !pending.started && pending.entry === entry) {
+      return pending.done;
+    }
+
+    const write: MetadataWrite = { entry, started: false, done: Promise.resolve() };
+    write.done = (pending?.done ?? Promise.resolve())
+      .catch(() => undefined)
+      .then(() => {
+        write.started = true;
+        return writeFileAtomic(this.getMetaPath(workflowId, entry.fileKey), JSON.stringify(entry));
+      })
+      .finally(() => {
+        if (this.metadataWrites.get(key) === write) {
+          this.metadataWrites.delete(key);
+        }
+      });
+    this.metadataWrites.set(key, write);
+    return write.done;
+  }
+
+  private async removeFiles(workflowId: string, fileKey: string): Promise<void> {
+    // A pending metadata write would otherwise recreate the file after it is removed
+    await this.metadataWrites.get(`${workflowId}:${fileKey}`)?.done.catch(() => undefined);
+    await Promise.all([
+      fs.rm(this.getDataPath(workflowId, fileKey), { force: true }),
+      fs.rm(this.getMetaPath(workflowId, fileKey), { force: true }),
+    ]);
+  }
+
+  /**
+   * Rebuild the in-memory index from metadata files on disk (runs once per instance)
+   */
+  private ensureLoaded(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.loadIndex();
+    }
+    return this.loadPromise;
+  }
+
+  private async loadIndex(): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const now = Date.now();
+    const workflowDirs = await fs.readdir(this.directory, { withFileTypes: true });
+
+    for (const workflowDir of workflowDirs) {
+      if (!workflowDir.isDirectory()) continue;
+
+      const workflowId = decodeURIComponent(workflowDir.name);
+      const fileNames = await fs.readdir(path.join(this.directory, workflowDir.name));
+
+      for (const fileName of fileNames) {
+        if (!fileName.endsWith(STORAGE.META_FILE_EXTENSION)) continue;
+
+        const fileKey = fileName.slice(0, -STORAGE.META_FILE_EXTENSION.length);
+        try {
+          const raw = await fs.readFile(this.getMetaPath(workflowId, fileKey), 'utf8');
+          const entry = JSON.parse(raw) as FileEntry;
+
+          if (now > entry.expiresAt) {
+            await this.removeFiles(workflowId, fileKey);
+            continue;
+          }
+
+          const dataPath = this.getDataPath(workflowId, fileKey);
+          const stat = await fs.stat(dataPath);
+          if (!entry.contentHash) {
+            // Metadata written before content hashes were recorded
+            entry.contentHash = createHash('sha256')
+              .update(await fs.readFile(dataPath))
+              .digest('hex');
+          }
+          this.addToIndex(workflowId, { ...entry, fileKey, size: stat.size });
+        } catch (error) {
+          this.warn(`Discarding unreadable stored file ${workflowId}/${fileKey}: ${error}`);
+          await this.removeFiles(workflowId, fileKey);
+        }
+      }
+    }
+  }
+
+  private async withUploadLock<T>(workflowId: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.uploadLocks.get(workflowId) ?? Promise.resolve();
+    const current = previous.catch(() => undefined).then(task);
+    this.uploadLocks.set(workflowId, current);
+
+    try {
+      return await current;
+    } finally {
+      // Release lock if no other upload queued behind this one
+      if (this.uploadLocks.get(workflowId) === current) {
+        this.uploadLocks.delete(workflowId);
+      }
+    }
+  }
+
+  async upload(
+    workflowId: string,
+    data: Buffer,
+    contentType: string,
+    ttl?: number,
+    options: UploadOptions = {}
+  ): Promise<UploadResult> {
+    await this.ensureLoaded();
+    const write = async (tempPath: string) => {
+      await fs.writeFile(tempPath, data);
+      return { contentHash: createHash('sha256').update(data).digest('hex'), size: data.length };
+    };
+    return this.withUploadLock(workflowId, () =>
+      this.uploadInternal(workflowId, data.length, write, contentType, ttl, options)
+    );
+  }
+
+  async uploadStream(
+    workflowId: string,
+    open: () => Promise<NodeJS.ReadableStream>,
+    size: number,
+    contentType: string,
+    ttl?: number,
+    options: UploadOptions = {}
+  ): Promise<UploadResult> {
+    await this.ensureLoaded();
+    return this.withUploadLock(workflowId, () =>
+      this.uploadInternal(
+        workflowId,
+        size,
+        async (tempPath) => writeStream(tempPath, await open(), size),
+        contentType,
+        ttl,
+        options
+      )
+    );
+  }
+
+  /**
+   * Make room for `fileSize` bytes, then store the file written by `write`
+   */
+  private async uploadInternal(
+    workflowId: string,
+    fileSize: number,
+    write: (tempPath: string) => Promise<{ contentHash: string; size: number }>,
+    contentType: string,
+    ttl?: number,
+    options: UploadOptions = {}
+  ): Promise<UploadResult> {
+    const now = Date.now();
+    const expiresAt = now + (ttl || TTL.DEFAULT);
+
+    const files = this.workflowIndexes.get(workflowId)?.files;
+    const fileKey = resolveFileKey(options, (key) => (files?.get(key)?.expiresAt ?? 0) >= now);
+    // An overwritten (or expired) file's bytes are freed by this upload, so they do not count
+    // against the quotas; re-read after each cleanup, which may have removed it already
+    const neededBytes = () =>
+      fileSize - (this.workflowIndexes.get(workflowId)?.files.get(fileKey)?.size ?? 0);
+
+    // Lazy cleanup: only trigger if expiration is imminent
+    if (this.nextGlobalExpirationTime && now >= this.nextGlobalExpirationTime) {
+      await this.cleanupAllExpired();
+    }
+
+    const quotaPolicy = options.quotaPolicy ?? 'evictOldest';
+    const evictionStrategy = options.evictionStrategy ?? 'oldestUpload';
+    const workflowQuota = options.workflowQuota ?? CACHE_LIMITS.MAX_CACHE_SIZE;
+
+    if (this.globalCacheSize + neededBytes() > this.globalMaxCacheSize) {
+      if (quotaPolicy === 'evictOldest') {
+        await this.cleanupOldestGlobal(neededBytes(), evictionStrategy);
+      } else {
+        if (quotaPolicy === 'evictExpired') {
+          await this.cleanupAllExpired();
+        }
+        if (this.globalCacheSize + neededBytes() > this.globalMaxCacheSize) {
+          throw new StorageQuotaError(
+            `Global storage limit of ${this.globalMaxCacheSize} bytes reached`,
+            'global'
+          );
+        }
+      }
+    }
+
+    const workflowSize = () => this.workflowIndexes.get(workflowId)?.cacheSize ?? 0;
+    if (workflowSize() + neededBytes() > workflowQuota) {
+      if (quotaPolicy === 'evictOldest') {
+        await this.cleanupOldestInWorkflow(workflowId, neededBytes(), evictionStrategy);
+      } else {
+        if (quotaPolicy === 'evictExpired') {
+          await this.cleanupAllExpired();
+        }
+        if (workflowSize() + neededBytes() > workflowQuota) {
+          throw new StorageQuotaError(
+            `Workflow storage quota of ${workflowQuota} bytes reached ` +
+            `(${workflowSize()} bytes in use, ${neededBytes()} bytes needed)`,
+            'workflow'
+          );
+        }
+      }
+    }
+
+    const dataPath = this.getDataPath(workflowId, fileKey);
+    const tempPath = `${dataPath}.tmp`;
+    const replacementKey = `${workflowId}:${fileKey}`;
+    let endReplacement: (() => void) | undefined;
+
+    await fs.mkdir(this.getWorkflowDirectory(workflowId), { recursive: true });
+    // Write to a temp file first so a crash never leaves a truncated blob behind a valid key,
+    // and a failed overwrite keeps the existing file
+    let written: { contentHash: string; size: number } | undefined;
+    try {
+      const result = await write(tempPath);
+      this.replacements.set(
+        replacementKey,
+        new Promise<void>((resolve) => {
+          endReplacement = resolve;
+        })
+      );
+      await fs.rename(tempPath, dataPath);
+      written = result;
+    } finally {
+      if (!written) {
+        this.replacements.delete(replacementKey);
+        endReplacement?.();
+        await fs.rm(tempPath, { force: true });
+      }
+    }
+
+    const entry: FileEntry = {
+      fileKey,
+      contentType,
+      contentHash: written.contentHash,
+      uploadedAt: now,
+      expiresAt,
+      size: written.size,
+      maxDownloads: options.maxDownloads,
+      remainingDownloads: options.maxDownloads,
+      fileName: options.fileName,
+      disposition: options.disposition,
+      contentEncoding: options.contentEncoding,
+      decodedSize: options.contentEncoding ? options.decodedSize : undefined,
+      slidingTtl: options.slidingTtl,
+      accessSecrets: options.accessSecrets,
+      accessRules: options.accessRules,
+    };
+
+    // Swap the entries in one step so lookups see either the old file or the new one
+    this.removeFromIndex(workflowId, fileKey);
+    this.exhaustedFiles.delete(`${workflowId}:${fileKey}`);
+    this.addToIndex(workflowId, entry);
+    this.replacements.delete(replacementKey);
+    endReplacement?.();
+    await this.writeEntry(workflowId, entry);
+    this.count(workflowId, 'uploads');
+
+    return { fileKey, contentType };
+  }
+
+  async download(workflowId: string, fileKey: string): Promise<DownloadResult | null> {
+    const read = await this.readLiveVersion(
+      workflowId,
+      fileKey,
+      (dataPath) => fs.readFile(dataPath),
+      async () => undefined
+    );
+    if (!read) {
+      return null;
+    }
+
+    read.entry.lastAccessedAt = Date.now();
+    return { ...this.toMetadata(read.entry), data: read.value };
+  }
+
+  async openFile(workflowId: string, fileKey: string): Promise<OpenedFile | null> {
+    // Opened up front so a missing blob is reported here, not by a stream; an overwrite or
+    // delete after this point leaves the open file readable
+    const opened = await this.readLiveVersion(
+      workflowId,
+      fileKey,
+      (dataPath) => fs.open(dataPath, 'r'),
+      (handle) => handle.close()
+    );
+    if (!opened) {
+      return null;
+    }
+
+    const { entry, value: handle } = opened;
+    entry.lastAccessedAt = Date.now();
+    return {
+      ...this.toMetadata(entry),
+      createReadStream: (range) =>
+        Readable.from(readFileRange(handle, range?.start ?? 0, range?.end ?? entry.size - 1), {
+          objectMode: false,
+        }),
+      close: () => handle.close(),
+    };
+  }
+
+  /**
+   * Read a file's data with `read` and return it with the index entry of the same version
+   *
+   * An overwrite renames its data into place before it swaps the index entry, so a read that
+   * overlaps a replacement may have seen the other version: it is released with `discard`
+   * and retried.
+   */
+  private async readLiveVersion<T>(
+    workflowId: string,
+    fileKey: string,
+    read: (dataPath: string) => Promise<T>,
+    discard: (value: T) => Promise<void>
+  ): Promise<{ entry: FileEntry; value: T } | null> {
+    const replacementKey = `${workflowId}:${fileKey}`;
+    const isCurrent = (entry: FileEntry) =>
+      !this.replacements.has(replacementKey) &&
+      this.workflowIndexes.get(workflowId)?.files.get(fileKey) === entry;
+
+    for (;;) {
+      await this.replacements.get(replacementKey);
+      const entry = await this.getLiveEntry(workflowId, fileKey);
+      if (!entry) {
+        return null;
+      }
+
+      let value: T;
+      try {
+        value = await read(this.getDataPath(workflowId, fileKey));
+      } catch (error) {
+        if (!isCurrent(entry)) {
+          continue;
+        }
+        await this.discardUnreadable(workflowId, fileKey, error);
+        return null;
+      }
+
+      if (isCurrent(entry)) {
+        return { entry, value };
+      }
+      await discard(value);
+    }
+  }
+
+  /**
+   * Blob is missing or unreadable: drop the stale index entry and treat it as gone
+   */
+  private async discardUnreadable(workflowId: string, fileKey: string, error: unknown): Promise<void> {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      this.warn(`Failed to read stored file ${workflowId}/${fileKey}: ${error}`);
+    }
+    await this.delete(workflowId, fileKey);
+  }
+
+  async getMetadata(workflowId: string, fileKey: string): Promise<FileMetadata | null> {
+    const entry = await this.getLiveEntry(workflowId, fileKey);
+    return entry ? this.toMetadata(entry) : null;
+  }
+
+  /**
+   * Look up an index entry, deleting the file if it has expired
+   */
+  private async getLiveEntry(workflowId: string, fileKey: string): Promise<FileEntry | undefined> {
+    await this.ensureLoaded();
+
+    const entry = this.workflowIndexes.get(workflowId)?.files.get(fileKey);
+    if (!entry) {
+      return undefined;
+    }
+
+    if (Date.now() > entry.expiresAt) {
+      await this.delete(workflowId, fileKey);
+      this.count(workflowId, 'expiredEvictions');
+      return undefined;
+    }
+
+    return entry;
+  }
+
+  private toMetadata(entry: FileEntry): FileMetadata {
+    return {
+      contentType: entry.contentType,
+      contentHash: entry.contentHash,
+      fileSize: entry.decodedSize ?? entry.size,
+      uploadedAt: entry.uploadedAt,
+      expiresAt: entry.expiresAt,
+      maxDownloads: entry.maxDownloads,
+      remainingDownloads: entry.remainingDownloads,
+      fileName: entry.fileName,
+      disposition: entry.disposition,
+      lastAccessedAt: entry.lastAccessedAt,
+      slidingTtl: entry.slidingTtl,
+      accessSecrets: entry.accessSecrets,
+      accessRules: entry.accessRules,
+      ...(entry.analytics && {
+        analytics: { ...entry.analytics, recentAccesses: [...entry.analytics.recentAccesses] },
+      }),
+      ...(entry.contentEncoding && {
+        contentEncoding: entry.contentEncoding,
+        storedSize: entry.size,
+      }),
+    };
+  }
+
+  async recordDownload(workflowId: string, fileKey: string): Promise<boolean> {
+    await this.ensureLoaded();
+
+    // Check and decrement before any await so concurrent downloads can't overshoot the limit
+    const entry = this.workflowIndexes.get(workflowId)?.files.get(fileKey);
+    if (!entry || Date.now() > entry.expiresAt) {
+      return false;
+    }
+
+    if (entry.remainingDownloads !== undefined) {
+      if (entry.remainingDownloads <= 0) {
+        return false;
+      }
+
+      entry.remainingDownloads--;
+      if (entry.remainingDownloads <= 0) {
+        this.exhaustedFiles.set(`${workflowId}:${fileKey}`, entry.expiresAt);
+        await this.delete(workflowId, fileKey);
+        return true;
+      }
+    }
+
+    const expiresAt = slideExpiry(entry, Date.now());
+    if (entry.remainingDownloads === undefined && expiresAt === entry.expiresAt) {
+      return true;
+    }
+
+    // A later expiry keeps nextGlobalExpirationTime a valid lower bound
+    entry.expiresAt = expiresAt;
+    await this.writeEntry(workflowId, entry);
+    return true;
+  }
+
+  async updateExpiry(
+    workflowId: string,
+    fileKey: string,
+    expiresAt: number
+  ): Promise<FileMetadata | null> {
+    const entry = await this.getLiveEntry(workflowId, fileKey);
+    if (!entry) {
+      return null;
+    }
+
+    entry.expiresAt = expiresAt;
+    if (!this.nextGlobalExpirationTime || expiresAt < this.nextGlobalExpirationTime) {
+      this.nextGlobalExpirationTime = expiresAt;
+    }
+    await this.writeEntry(workflowId, entry);
+    return this.toMetadata(entry);
+  }
+
+  async isExhausted(workflowId: string, fileKey: string): Promise<boolean> {
+    const key = `${workflowId}:${fileKey}`;
+    const expiresAt = this.exhaustedFiles.get(key);
+    if (expiresAt === undefined) {
+      return false;
+    }
+    if (Date.now() > expiresAt) {
+      this.exhaustedFiles.delete(key);
+      return false;
+    }
+    return true;
+  }
+
+  async recordAccess(workflowId: string, fileKey: string, access: AccessRecord): Promise<void> {
+    await this.ensureLoaded();
+
+    countAccess(this.getCounters(workflowId), access);
+    countAccess(this.totalCounters, access);
+
+    const entry = this.workflowIndexes.get(workflowId)?.files.get(fileKey);
+    if (entry) {
+      entry.analytics = addAccessRecord(entry.analytics, access);
+      await this.writeEntry(workflowId, entry);
+    }
+  }
+
+  async delete(workflowId: string, fileKey: string): Promise<boolean> {
+    await this.ensureLoaded();
+
+    const entry = this.removeFromIndex(workflowId, fileKey);
+    if (!entry) {
+      return false;
+    }
+
+    await this.removeFiles(workflowId, fileKey);
+    return true;
+  }
+
+  /**
+   * List unexpired files of a workflow, oldest upload first
+   */
+  async list(workflowId: string): Promise<FileListEntry[]> {
+    await this.ensureLoaded();
+
+    const workflowIndex = this.workflowIndexes.get(workflowId);
+    if (!workflowIndex) {
+      return [];
+    }
+
+    const now = Date.now();
+    const files: FileListEntry[] = [];
+    for (const entry of workflowIndex.files.values()) {
+      if (now > entry.expiresAt) continue;
+      files.push({ fileKey: entry.fileKey, ...this.toMetadata(entry) });
+    }
+
+    return files.sort((a, b) => a.uploadedAt - b.uploadedAt);
+  }
+
+  async cleanupAllExpired(): Promise<void> {
+    await this.ensureLoaded();
+
+    const now = Date.now();
+
+    // Skip cleanup if next expiration is in the future
+    if (this.nextGlobalExpirationTime && now < this.nextGlobalExpirationTime) {
+      return;
+    }
+
+    const expiredFiles: Array<{ workflowId: string; fileKey: string }> = [];
+    let minExpiration = Infinity;
+
+    for (const [workflowId, workflowIndex] of this.workflowIndexes.entries()) {
+      for (const entry of workflowIndex.files.values()) {
+        if (now > entry.expiresAt) {
+          expiredFiles.push({ workflowId, fileKey: entry.fileKey });
+        } else if (entry.expiresAt < minExpiration) {
+          minExpiration = entry.expiresAt;
+        }
+      }
+    }
+
+    for (const { workflowId, fileKey } of expiredFiles) {
+      await this.delete(workflowId, fileKey);
+      this.count(workflowId, 'expiredEvictions');
+    }
+
+    for (const [key, expiresAt] of this.exhaustedFiles.entries()) {
+      if (now > expiresAt) {
+        this.exhaustedFiles.delete(key);
+      }
+    }
+
+    this.nextGlobalExpirationTime = minExpiration === Infinity ? undefined : minExpiration;
+  }
+
+  async cleanupOldestInWorkflow(
+    workflowId: string,
+    requiredSpace: number,
+    strategy: EvictionStrategy = 'oldestUpload'
+  ): Promise<void> {
+    const workflowIndex = this.workflowIndexes.get(workflowId);
+    if (!workflowIndex) return;
+
+    const entries = Array.from(workflowIndex.files.values());
+    entries.sort((a, b) => evictionPriority(a, strategy) - evictionPriority(b, strategy));
+
+    let freedSpace = 0;
+    let deletedCount = 0;
+
+    for (const entry of entries) {
+      // Stop if we freed enough space or hit max delete limit
+      if (freedSpace >= requiredSpace || deletedCount >= CLEANUP.MAX_DELETE_PER_CLEANUP) {
+        break;
+      }
+
+      // Always keep at least MIN_FILES_TO_KEEP files
+      if (entries.length - deletedCount <= CLEANUP.MIN_FILES_TO_KEEP) {
+        break;
+      }
+
+      freedSpace += entry.size;
+      await this.delete(workflowId, entry.fileKey);
+      this.count(workflowId, 'quotaEvictions');
+      deletedCount++;
+    }
+
+    if (freedSpace < requiredSpace && deletedCount < entries.length - CLEANUP.MIN_FILES_TO_KEEP) {
+      this.warn(
+        `Could not free enough space for workflow ${workflowId}. ` +
+        `Needed: ${requiredSpace} bytes, freed: ${freedSpace} bytes. ` +
+        `Keeping ${CLEANUP.MIN_FILES_TO_KEEP} files as minimum.`
+      );
+    }
+  }
+
+  async cleanupOldestGlobal(
+    requiredSpace: number,
+    strategy: EvictionStrategy = 'oldestUpload'
+  ): Promise<void> {
+    // Expired files go first, then files across all workflows in eviction order
+    await this.cleanupAllExpired();
+
+    const entries: Array<{ workflowId: string; entry: FileEntry }> = [];
+    for (const [workflowId, workflowIndex] of this.workflowIndexes.entries()) {
+      for (const entry of workflowIndex.files.values()) {
+        entries.push({ workflowId, entry });
+      }
+    }
+    entries.sort(
+      (a, b) => evictionPriority(a.entry, strategy) - evictionPriority(b.entry, strategy)
+    );
+
+    let deletedCount = 0;
+    const limit = this.globalMaxCacheSize - requiredSpace;
+
+    for (const { workflowId, entry } of entries) {
+      if (this.globalCacheSize <= limit || deletedCount >= CLEANUP.MAX_DELETE_PER_CLEANUP) {
+        break;
+      }
+      await this.delete(workflowId, entry.fileKey);
+      this.count(workflowId, 'quotaEvictions');
+      deletedCount++;
+    }
+
+    if (this.globalCacheSize > limit && deletedCount >= CLEANUP.MAX_DELETE_PER_CLEANUP) {
+      this.warn(
+        `Hit max delete limit (${CLEANUP.MAX_DELETE_PER_CLEANUP}) ` +
+        `but still need ${this.globalCacheSize - limit} bytes globally`
+      );
+    }
+  }
+
+  getStats(workflowId?: string): StorageStats {
+    const stats: StorageStats = {
+      workflowCount: this.workflowIndexes.size,
+      totalFiles: 0,
+      totalCacheSize: this.globalCacheSize,
+      totalDownloads: this.totalCounters.downloads,
+      totalNotFound: this.totalCounters.notFound,
+    };
+
+    for (const workflowIndex of this.workflowIndexes.values()) {
+      stats.totalFiles += workflowIndex.files.size;
+    }
+
+    if (workflowId) {
+      const workflowIndex = this.workflowIndexes.get(workflowId);
+      stats.workflowFiles = workflowIndex?.files.size ?? 0;
+      stats.workflowCacheSize = workflowIndex?.cacheSize ?? 0;
+      stats.workflowDownloads = this.counters.get(workflowId)?.downloads ?? 0;
+      stats.workflowNotFound = this.counters.get(workflowId)?.notFound ?? 0;
+    }
+
+    return stats;
+  }
+
+  getUsage(): StorageUsage {
+    const workflowIds = new Set([...this.workflowIndexes.keys(), ...this.counters.keys()]);
+    let totalFiles = 0;
+    for (const workflowIndex of this.workflowIndexes.values()) {
+      totalFiles += workflowIndex.files.size;
+    }
+
+    return {
+      workflows: [...workflowIds].map((workflowId) => ({
+        workflowId,
+        fileCount: this.workflowIndexes.get(workflowId)?.files.size ?? 0,
+        cacheSize: this.workflowIndexes.get(workflowId)?.cacheSize ?? 0,
+        counters: { ...this.getCounters(workflowId) },
+      })),
+      totalFiles,
+      totalCacheSize: this.globalCacheSize,
+      maxCacheSize: this.globalMaxCacheSize,
+    };
+  }
+}
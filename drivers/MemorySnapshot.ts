@@ -0,0 +1,172 @@
+import { createHash } from 'crypto';
+// eslint-disable-next-line @n8n/community-nodes/no-restricted-imports -- snapshots are opt-in and self-hosted only
+import * as fs from 'fs';
+// eslint-disable-next-line @n8n/community-nodes/no-restricted-imports -- snapshots are opt-in and self-hosted only
+import * as path from 'path';
+import { SNAPSHOT, STORAGE } from '../config/constants.js';
+import type {
+  AccessRules,
+  AccessSecret,
+  ContentEncoding,
+  FileAnalytics,
+  UploadOptions,
+} from './StorageDriver.js';
+
+/**
+ * One stored file in a snapshot manifest; the contents live in the blob named by `contentHash`
+ */
+export interface SnapshotFile {
+  workflowId: string;
+  fileKey: string;
+  contentType: string;
+  contentHash: string;
+  uploadedAt: number;
+  expiresAt: number;
+  maxDownloads?: number;
+  remainingDownloads?: number;
+  fileName?: string;
+  disposition?: UploadOptions['disposition'];
+  lastAccessedAt?: number;
+  contentEncoding?: ContentEncoding;
+  decodedSize?: number;
+  slidingTtl?: number;
+  analytics?: FileAnalytics;
+  accessSecrets?: AccessSecret[];
+  accessRules?: AccessRules;
+}
+
+/**
+ * Contents of `snapshot.json`
+ */
+export interface SnapshotManifest {
+  version: number;
+  files: SnapshotFile[];
+  /** Files whose download limit was reached, keyed as in `MemoryStorage.exhaustedFiles` */
+  exhaustedFiles: Array<{ key: string; expiresAt: number }>;
+}
+
+const CONTENT_HASH_PATTERN = /^[0-9a-f]{64}$/;
+
+function getBlobDirectory(directory: string): string {
+  return path.join(directory, SNAPSHOT.BLOB_DIRECTORY_NAME);
+}
+
+function getBlobPath(directory: string, contentHash: string): string {
+  return path.join(getBlobDirectory(directory), `${contentHash}${STORAGE.DATA_FILE_EXTENSION}`);
+}
+
+/**
+ * Write to a temp file and rename it, so a crash mid-write never leaves a truncated file behind
+ */
+async function writeFileAtomic(filePath: string, data: Buffer | string): Promise<void> {
+  const tempPath = `${filePath}.tmp`;
+  await fs.promises.writeFile(tempPath, data);
+  await fs.promises.rename(tempPath, filePath);
+}
+
+function writeFileAtomicSync(filePath: string, data: Buffer | string): void {
+  const tempPath = `${filePath}.tmp`;
+  fs.writeFileSync(tempPath, data);
+  fs.renameSync(tempPath, filePath);
+}
+
+/**
+ * Replace the snapshot in `directory` with the given files
+ *
+ * Blobs are named by content hash and never change, so only contents not already on disk are
+ * written; blobs the new manifest no longer references are deleted once it is in place.
+ * @param manifest - Serialized `SnapshotManifest`
+ * @param blobs - Contents of every file in the manifest, keyed by content hash
+ */
+export async function writeSnapshot(
+  directory: string,
+  manifest: string,
+  blobs: Map<string, Buffer>
+): Promise<void> {
+  const blobDirectory = getBlobDirectory(directory);
+  await fs.promises.mkdir(blobDirectory, { recursive: true });
+  const stored = new Set(await fs.promises.readdir(blobDirectory));
+
+  for (const [contentHash, data] of blobs) {
+    const blobPath = getBlobPath(directory, contentHash);
+    if (!stored.has(path.basename(blobPath))) {
+      await writeFileAtomic(blobPath, data);
+    }
+  }
+
+  await writeFileAtomic(path.join(directory, SNAPSHOT.MANIFEST_FILE_NAME), manifest);
+
+  for (const name of stored) {
+    if (!blobs.has(path.basename(name, STORAGE.DATA_FILE_EXTENSION))) {
+      await fs.promises.rm(path.join(blobDirectory, name), { force: true });
+    }
+  }
+}
+
+/**
+ * `writeSnapshot()` for a process `exit` handler, which cannot wait for async work
+ */
+export function writeSnapshotSync(
+  directory: string,
+  manifest: string,
+  blobs: Map<string, Buffer>
+): void {
+  const blobDirectory = getBlobDirectory(directory);
+  fs.mkdirSync(blobDirectory, { recursive: true });
+
+  for (const [contentHash, data] of blobs) {
+    const blobPath = getBlobPath(directory, contentHash);
+    if (!fs.existsSync(blobPath)) {
+      writeFileAtomicSync(blobPath, data);
+    }
+  }
+
+  writeFileAtomicSync(path.join(directory, SNAPSHOT.MANIFEST_FILE_NAME), manifest);
+
+  for (const name of fs.readdirSync(blobDirectory)) {
+    if (!blobs.has(path.basename(name, STORAGE.DATA_FILE_EXTENSION))) {
+      fs.rmSync(path.join(blobDirectory, name), { force: true });
+    }
+  }
+}
+
+/**
+ * Read the manifest of the snapshot in `directory`
+ * @returns null when there is no snapshot or it was written by an incompatible version
+ */
+export async function readSnapshot(directory: string): Promise<SnapshotManifest | null> {
+  const manifestPath = path.join(directory, SNAPSHOT.MANIFEST_FILE_NAME);
+  if (!fs.existsSync(manifestPath)) {
+    return null;
+  }
+
+  const manifest = JSON.parse(await fs.promises.readFile(manifestPath, 'utf8')) as SnapshotManifest;
+  if (manifest.version !== SNAPSHOT.VERSION || !Array.isArray(manifest.files)) {
+    return null;
+  }
+  manifest.exhaustedFiles = Array.isArray(manifest.exhaustedFiles) ? manifest.exhaustedFiles : [];
+  return manifest;
+}
+
+/**
+ * Read the contents stored under `contentHash`
+ * @returns null when the blob is missing or its contents no longer match the hash
+ */
+export async function readSnapshotBlob(
+  directory: string,
+  contentHash: string
+): Promise<Buffer | null> {
+  // The hash becomes a file name, so anything else in the manifest is refused
+  if (!CONTENT_HASH_PATTERN.test(contentHash)) {
+    return null;
+  }
+
+  let data: Buffer;
+  try {
+    data = await fs.promises.readFile(getBlobPath(directory, contentHash));
+  } catch {
+    return null;
+  }
+
+  return createHash('sha256').update(data).digest('hex') === contentHash ? data : null;
+}
@@ -1,41 +1,95 @@
-import { randomUUID } from 'crypto';
+import { createHash } from 'crypto';
 import type { Logger } from 'n8n-workflow';
-import { TTL, CACHE_LIMITS, CLEANUP } from '../config/constants.js';
+import { TTL, CACHE_LIMITS, CLEANUP, SNAPSHOT } from '../config/constants.js';
+import {
+  getGlobalMaxCacheSize,
+  getSnapshotDirectory,
+  getSnapshotInterval,
+} from '../config/environment.js';
+import { FileHeap, type HeapEntry } from './FileHeap.js';
+import {
+  readSnapshot,
+  readSnapshotBlob,
+  writeSnapshot,
+  writeSnapshotSync,
+  type SnapshotFile,
+} from './MemorySnapshot.js';
+import {
+  StorageQuotaError,
+  addAccessRecord,
+  countAccess,
+  createStorageCounters,
+  evictionPriority,
+  resolveFileKey,
+  slideExpiry,
+  type AccessRecord,
+  type AccessRules,
+  type AccessSecret,
+  type ContentEncoding,
+  type DownloadResult,
+  type EvictionStrategy,
+  type FileAnalytics,
+  type FileListEntry,
+  type FileMetadata,
+  type StorageCounters,
+  type StorageStats,
+  type StorageUsage,
+  type UploadOptions,
+  type UploadResult,
+} from './StorageDriver.js';
 
 interface MemoryFile {
+  /** Shared with every other file that has the same contents */
   data: Buffer;
   contentType: string;
+  /** SHA-256 of the file contents (hex), used as the ETag */
+  contentHash: string;
   uploadedAt: number;
   expiresAt: number;
+  maxDownloads?: number;
+  remainingDownloads?: number;
+  fileName?: string;
+  disposition?: UploadOptions['disposition'];
+  lastAccessedAt?: number;
+  contentEncoding?: ContentEncoding;
+  decodedSize?: number;
+  slidingTtl?: number;
+  analytics?: FileAnalytics;
+  accessSecrets?: AccessSecret[];
+  accessRules?: AccessRules;
 }
 
 interface WorkflowCache {
   cache: Map<string, MemoryFile>;
   cacheSize: number;
   nextExpirationTime?: number;
+  /** Sorted by `expiresAt` */
   expirationQueue: Array<{ fileKey: string; expiresAt: number }>;
+  /** Position of each file in `expirationQueue` */
   queueIndex: Map<string, number>;
 }
 
-interface GlobalFileEntry {
-  workflowId: string;
-  fileKey: string;
-  uploadedAt: number;
-}
-
-interface StorageStats {
-  workflowCount: number;
-  totalFiles: number;
-  totalCacheSize: number;
-  workflowFiles?: number;
-  workflowCacheSize?: number;
+/**
+ * Deduplicated file contents, shared by all files with the same content hash
+ */
+interface MemoryBlob {
+  data: Buffer;
+  /** Number of files referencing the blob, across all workflows */
+  refCount: number;
+  /** Files referencing the blob per workflow, so each workflow is charged for it once */
+  workflowRefs: Map<string, number>;
 }
 
+/**
+ * In-memory storage driver
+ *
+ * Implements `StorageDriver` through static members, so the class itself is the driver.
+ */
 export class MemoryStorage {
   private static workflowCaches = new Map<string, WorkflowCache>();
   private static readonly DEFAULT_TTL = TTL.DEFAULT;
   private static readonly MAX_CACHE_SIZE = CACHE_LIMITS.MAX_CACHE_SIZE;
-  private static readonly GLOBAL_MAX_CACHE_SIZE = CACHE_LIMITS.GLOBAL_MAX_CACHE_SIZE;
+  private static readonly GLOBAL_MAX_CACHE_SIZE = getGlobalMaxCacheSize();
   private static globalCacheSize = 0;
   private static nextGlobalExpirationTime?: number;
   private static cleanupInterval?: NodeJS.Timeout;
@@ -44,100 +98,297 @@ export class MemoryStorage {
   private static readonly VALIDATION_THRESHOLD = CLEANUP.VALIDATION_THRESHOLD;
   private static logger?: Logger;
 
-  private static globalUploadQueue: GlobalFileEntry[] = [];
-  private static globalUploadQueueIndex = new Map<string, number>();
+  // File contents keyed by SHA-256, see retainBlob()/releaseBlob()
+  private static blobs = new Map<string, MemoryBlob>();
+
+  // Files deleted after reaching their download limit, kept until their TTL to answer 410
+  private static exhaustedFiles = new Map<string, number>();
+
+  // Event totals per workflow and overall, kept after the files themselves are gone
+  private static counters = new Map<string, StorageCounters>();
+  private static totalCounters: StorageCounters = createStorageCounters();
+
+  private static getCounters(workflowId: string): StorageCounters {
+    let counters = this.counters.get(workflowId);
+    if (!counters) {
+      counters = createStorageCounters();
+      this.counters.set(workflowId, counters);
+    }
+    return counters;
+  }
+
+  private static count(workflowId: string, counter: keyof StorageCounters): void {
+    this.getCounters(workflowId)[counter]++;
+    this.totalCounters[counter]++;
+  }
+
+  // One eviction order per strategy, see evictionPriority()
+  private static evictionHeaps: Record<EvictionStrategy, FileHeap> = {
+    oldestUpload: new FileHeap(),
+    leastRecentlyAccessed: new FileHeap(),
+    soonestToExpire: new FileHeap(),
+  };
 
   private static readonly UPLOAD_QUEUE_INDEX_KEY = (workflowId: string, fileKey: string) =>
     `${workflowId}:${fileKey}`;
 
-  private static heapSwap(i: number, j: number): void {
-    const temp = this.globalUploadQueue[i];
-    this.globalUploadQueue[i] = this.globalUploadQueue[j];
-    this.globalUploadQueue[j] = temp;
+  private static addToEvictionHeaps(workflowId: string, fileKey: string, file: MemoryFile): void {
+    for (const [strategy, heap] of Object.entries(this.evictionHeaps)) {
+      heap.push(workflowId, fileKey, evictionPriority(file, strategy as EvictionStrategy));
+    }
+  }
 
-    const keyI = this.UPLOAD_QUEUE_INDEX_KEY(this.globalUploadQueue[i].workflowId, this.globalUploadQueue[i].fileKey);
-    const keyJ = this.UPLOAD_QUEUE_INDEX_KEY(this.globalUploadQueue[j].workflowId, this.globalUploadQueue[j].fileKey);
-    this.globalUploadQueueIndex.set(keyI, i);
-    this.globalUploadQueueIndex.set(keyJ, j);
+  private static removeFromEvictionHeaps(workflowId: string, fileKey: string): void {
+    for (const heap of Object.values(this.evictionHeaps)) {
+      heap.remove(workflowId, fileKey);
+    }
   }
 
-  private static heapSiftUp(index: number): void {
-    while (index > 0) {
-      const parentIndex = Math.floor((index - 1) / 2);
-      if (this.globalUploadQueue[parentIndex].uploadedAt <= this.globalUploadQueue[index].uploadedAt) {
-        break;
+  /**
+   * Insert a file into the expiration queue at its sorted position
+   */
+  private static enqueueExpiration(
+    workflowCache: WorkflowCache,
+    fileKey: string,
+    expiresAt: number
+  ): void {
+    let insertIndex = workflowCache.expirationQueue.length;
+    let left = 0;
+    let right = workflowCache.expirationQueue.length - 1;
+
+    while (left <= right) {
+      const mid = Math.floor((left + right) / 2);
+      const midExpiresAt = workflowCache.expirationQueue[mid].expiresAt;
+
+      if (midExpiresAt <= expiresAt) {
+        left = mid + 1;
+      } else {
+        right = mid - 1;
+        insertIndex = mid;
       }
-      this.heapSwap(parentIndex, index);
-      index = parentIndex;
     }
+
+    workflowCache.expirationQueue.splice(insertIndex, 0, { fileKey, expiresAt });
+    this.reindexExpirationQueue(workflowCache, insertIndex);
+    workflowCache.nextExpirationTime = workflowCache.expirationQueue[0]?.expiresAt;
   }
 
-  private static heapSiftDown(index: number): void {
-    const length = this.globalUploadQueue.length;
-    while (true) {
-      let smallest = index;
-      const left = 2 * index + 1;
-      const right = 2 * index + 2;
+  private static dequeueExpiration(workflowCache: WorkflowCache, fileKey: string): void {
+    const queueIndex = workflowCache.queueIndex.get(fileKey);
+    if (queueIndex === undefined) return;
 
-      if (left < length && this.globalUploadQueue[left].uploadedAt < this.globalUploadQueue[smallest].uploadedAt) {
-        smallest = left;
-      }
-      if (right < length && this.globalUploadQueue[right].uploadedAt < this.globalUploadQueue[smallest].uploadedAt) {
-        smallest = right;
-      }
-      if (smallest === index) {
-        break;
-      }
-      this.heapSwap(index, smallest);
-      index = smallest;
+    workflowCache.expirationQueue.splice(queueIndex, 1);
+    workflowCache.queueIndex.delete(fileKey);
+    this.reindexExpirationQueue(workflowCache, queueIndex);
+    workflowCache.nextExpirationTime = workflowCache.expirationQueue[0]?.expiresAt;
+  }
+
+  /**
+   * Every splice shifts the entries behind it, so their positions are rewritten
+   */
+  private static reindexExpirationQueue(workflowCache: WorkflowCache, from = 0): void {
+    const queue = workflowCache.expirationQueue;
+    for (let i = from; i < queue.length; i++) {
+      workflowCache.queueIndex.set(queue[i].fileKey, i);
     }
   }
 
-  private static heapPush(entry: GlobalFileEntry): void {
-    this.globalUploadQueue.push(entry);
-    const key = this.UPLOAD_QUEUE_INDEX_KEY(entry.workflowId, entry.fileKey);
-    this.globalUploadQueueIndex.set(key, this.globalUploadQueue.length - 1);
-    this.heapSiftUp(this.globalUploadQueue.length - 1);
+  /**
+   * Drop the first `count` (expired) entries of the expiration queue
+   */
+  private static shiftExpirationQueue(workflowCache: WorkflowCache, count: number): void {
+    if (count === 0) return;
+
+    for (const { fileKey } of workflowCache.expirationQueue.splice(0, count)) {
+      workflowCache.queueIndex.delete(fileKey);
+    }
+    this.reindexExpirationQueue(workflowCache);
   }
 
-  private static heapRemove(index: number): GlobalFileEntry | undefined {
-    if (index >= this.globalUploadQueue.length) {
-      return undefined;
+  private static refreshNextGlobalExpiration(): void {
+    let minExpiration = Infinity;
+    for (const workflowCache of this.workflowCaches.values()) {
+      if (workflowCache.nextExpirationTime && workflowCache.nextExpirationTime < minExpiration) {
+        minExpiration = workflowCache.nextExpirationTime;
+      }
     }
-    const entry = this.globalUploadQueue[index];
-    const lastIndex = this.globalUploadQueue.length - 1;
-    this.heapSwap(index, lastIndex);
-    this.globalUploadQueue.pop();
-    const key = this.UPLOAD_QUEUE_INDEX_KEY(entry.workflowId, entry.fileKey);
-    this.globalUploadQueueIndex.delete(key);
+    this.nextGlobalExpirationTime = minExpiration === Infinity ? undefined : minExpiration;
+  }
 
-    if (index < this.globalUploadQueue.length) {
-      this.heapSiftDown(index);
-      this.heapSiftUp(index);
+  /**
+   * Move a live file to a new place in the expiration queue and eviction order
+   */
+  private static setExpiresAt(
+    workflowId: string,
+    workflowCache: WorkflowCache,
+    fileKey: string,
+    file: MemoryFile,
+    expiresAt: number
+  ): void {
+    const previous = file.expiresAt;
+    this.dequeueExpiration(workflowCache, fileKey);
+    file.expiresAt = expiresAt;
+    this.enqueueExpiration(workflowCache, fileKey, expiresAt);
+    this.evictionHeaps.soonestToExpire.update(
+      workflowId,
+      fileKey,
+      evictionPriority(file, 'soonestToExpire')
+    );
+
+    if (!this.nextGlobalExpirationTime || expiresAt < this.nextGlobalExpirationTime) {
+      this.nextGlobalExpirationTime = expiresAt;
+    } else if (previous <= this.nextGlobalExpirationTime) {
+      // The file was the next to expire anywhere, so another file may now be
+      this.refreshNextGlobalExpiration();
     }
-    return entry;
   }
 
-  private static heapPeek(): GlobalFileEntry | undefined {
-    return this.globalUploadQueue[0];
+  // Concurrency control: per-workflow upload locks
+  private static uploadLocks = new Map<string, Promise<unknown>>();
+
+  // Snapshots, see MemorySnapshot.ts; set up on first use when a snapshot directory is configured
+  private static snapshotDirectory?: string;
+  private static snapshotTimer?: NodeJS.Timeout;
+  private static lastSnapshotManifest?: string;
+  private static snapshotWrite?: Promise<void>;
+  private static restorePromise?: Promise<void>;
+
+  /**
+   * Reload the last snapshot before the store is first used
+   *
+   * Every public entry point awaits this, so nothing reads or changes the store while the
+   * snapshot is loading.
+   */
+  private static ensureRestored(): Promise<void> {
+    this.restorePromise ??= this.startSnapshots();
+    return this.restorePromise;
+  }
+
+  private static async startSnapshots(): Promise<void> {
+    const directory = getSnapshotDirectory();
+    if (!directory) return;
+
+    this.snapshotDirectory = directory;
+    try {
+      await this.restoreSnapshot(directory);
+    } catch (error) {
+      this.warn(`Could not restore memory storage snapshot from ${directory}: ${error}`);
+    }
+
+    // eslint-disable-next-line @n8n/community-nodes/no-restricted-globals -- snapshots are opt-in and self-hosted only
+    this.snapshotTimer = setInterval(() => void this.saveSnapshot(), getSnapshotInterval());
+    this.snapshotTimer.unref();
+    // `exit` also runs after n8n's graceful shutdown and on crashes, but only allows sync work
+    // eslint-disable-next-line @n8n/community-nodes/no-restricted-globals -- snapshots are opt-in and self-hosted only
+    process.once('exit', () => this.saveSnapshotSync());
   }
 
-  private static heapPop(): GlobalFileEntry | undefined {
-    return this.heapRemove(0);
+  /**
+   * Load files from the snapshot, dropping those that expired while n8n was down
+   */
+  private static async restoreSnapshot(directory: string): Promise<void> {
+    const manifest = await readSnapshot(directory);
+    if (!manifest) return;
+
+    const now = Date.now();
+    // Sorted by expiry, every file is appended to the end of its expiration queue
+    const files = manifest.files
+      .filter((file) => now <= file.expiresAt)
+      .sort((a, b) => a.expiresAt - b.expiresAt);
+
+    for (const { workflowId, fileKey, ...fields } of files) {
+      const data =
+        this.blobs.get(fields.contentHash)?.data ??
+        (await readSnapshotBlob(directory, fields.contentHash));
+      if (!data) {
+        this.warn(`Dropping snapshotted file ${fileKey} of workflow ${workflowId}: contents are missing or corrupt`);
+        continue;
+      }
+
+      const workflowCache = this.getOrCreateWorkflowCache(workflowId);
+      const file: MemoryFile = {
+        ...fields,
+        data: this.retainBlob(workflowId, workflowCache, data, fields.contentHash),
+      };
+      workflowCache.cache.set(fileKey, file);
+      this.addToEvictionHeaps(workflowId, fileKey, file);
+      this.enqueueExpiration(workflowCache, fileKey, file.expiresAt);
+    }
+
+    for (const { key, expiresAt } of manifest.exhaustedFiles) {
+      if (now <= expiresAt) {
+        this.exhaustedFiles.set(key, expiresAt);
+      }
+    }
+
+    this.refreshNextGlobalExpiration();
   }
 
-  private static heapContains(workflowId: string, fileKey: string): boolean {
-    const key = this.UPLOAD_QUEUE_INDEX_KEY(workflowId, fileKey);
-    return this.globalUploadQueueIndex.has(key);
+  /**
+   * Write unexpired files to the snapshot directory, unless nothing changed since the last snapshot
+   *
+   * Skipped while the previous snapshot is still being written.
+   */
+  static async saveSnapshot(): Promise<void> {
+    const directory = this.snapshotDirectory;
+    if (!directory || this.snapshotWrite) return;
+
+    const snapshot = this.collectSnapshot();
+    if (!snapshot) return;
+
+    this.snapshotWrite = writeSnapshot(directory, snapshot.manifest, snapshot.blobs);
+    try {
+      await this.snapshotWrite;
+      this.lastSnapshotManifest = snapshot.manifest;
+    } catch (error) {
+      this.warn(`Could not write memory storage snapshot to ${directory}: ${error}`);
+    } finally {
+      this.snapshotWrite = undefined;
+    }
   }
 
-  private static heapGetIndex(workflowId: string, fileKey: string): number | undefined {
-    const key = this.UPLOAD_QUEUE_INDEX_KEY(workflowId, fileKey);
-    return this.globalUploadQueueIndex.get(key);
+  /**
+   * `saveSnapshot()` for the process `exit` handler, even while a periodic snapshot is unfinished
+   */
+  static saveSnapshotSync(): void {
+    const directory = this.snapshotDirectory;
+    if (!directory) return;
+
+    const snapshot = this.collectSnapshot();
+    if (!snapshot) return;
+
+    try {
+      writeSnapshotSync(directory, snapshot.manifest, snapshot.blobs);
+      this.lastSnapshotManifest = snapshot.manifest;
+    } catch (error) {
+      this.warn(`Could not write memory storage snapshot to ${directory}: ${error}`);
+    }
   }
 
-  // Concurrency control: per-workflow upload locks
-  private static uploadLocks = new Map<string, Promise<{ fileKey: string; contentType: string }>>();
+  /**
+   * Serialize the unexpired files and collect their contents
+   * @returns undefined when nothing changed since the last snapshot
+   */
+  private static collectSnapshot(): { manifest: string; blobs: Map<string, Buffer> } | undefined {
+    const now = Date.now();
+    const files: SnapshotFile[] = [];
+    const blobs = new Map<string, Buffer>();
+    for (const [workflowId, workflowCache] of this.workflowCaches.entries()) {
+      for (const [fileKey, file] of workflowCache.cache.entries()) {
+        if (now > file.expiresAt) continue;
+        const { data, ...fields } = file;
+        files.push({ workflowId, fileKey, ...fields });
+        blobs.set(file.contentHash, data);
+      }
+    }
+
+    const exhaustedFiles = [...this.exhaustedFiles.entries()]
+      .filter(([, expiresAt]) => now <= expiresAt)
+      .map(([key, expiresAt]) => ({ key, expiresAt }));
+
+    const manifest = JSON.stringify({ version: SNAPSHOT.VERSION, files, exhaustedFiles });
+    return manifest === this.lastSnapshotManifest ? undefined : { manifest, blobs };
+  }
 
   /**
    * Set logger instance for MemoryStorage warnings
@@ -164,75 +415,146 @@ export class MemoryStorage {
     return this.workflowCaches.get(workflowId)!;
   }
 
-  private static increaseCacheSize(workflowCache: WorkflowCache, fileSize: number): void {
-    workflowCache.cacheSize += fileSize;
-    this.globalCacheSize += fileSize;
-  }
+  /**
+   * Take a reference to the blob with the given contents, storing it on first use
+   *
+   * Cache sizes count unique bytes: the global size grows when the blob is created, a
+   * workflow's size when that workflow first references it.
+   * @returns the shared buffer to store on the file
+   */
+  private static retainBlob(
+    workflowId: string,
+    workflowCache: WorkflowCache,
+    data: Buffer,
+    contentHash: string
+  ): Buffer {
+    let blob = this.blobs.get(contentHash);
+    if (!blob) {
+      blob = { data, refCount: 0, workflowRefs: new Map() };
+      this.blobs.set(contentHash, blob);
+      this.globalCacheSize += data.length;
+    }
+
+    const workflowRefs = blob.workflowRefs.get(workflowId) ?? 0;
+    if (workflowRefs === 0) {
+      workflowCache.cacheSize += blob.data.length;
+    }
+    blob.workflowRefs.set(workflowId, workflowRefs + 1);
+    blob.refCount++;
 
-  private static decreaseCacheSize(workflowCache: WorkflowCache, fileSize: number): void {
-    workflowCache.cacheSize = Math.max(0, workflowCache.cacheSize - fileSize);
-    this.globalCacheSize = Math.max(0, this.globalCacheSize - fileSize);
+    return blob.data;
   }
 
   /**
-   * Generate a cryptographically secure file key
-   * Format: {timestamp}-{16-char-hex}
+   * Drop a file's reference to its blob, freeing the bytes once nothing references them
    */
-  static generateFileKey(): string {
-    return randomUUID();
+  private static releaseBlob(
+    workflowId: string,
+    workflowCache: WorkflowCache,
+    contentHash: string
+  ): void {
+    const blob = this.blobs.get(contentHash);
+    if (!blob) return;
+
+    const workflowRefs = (blob.workflowRefs.get(workflowId) ?? 0) - 1;
+    if (workflowRefs <= 0) {
+      blob.workflowRefs.delete(workflowId);
+      workflowCache.cacheSize = Math.max(0, workflowCache.cacheSize - blob.data.length);
+    } else {
+      blob.workflowRefs.set(workflowId, workflowRefs);
+    }
+
+    blob.refCount--;
+    if (blob.refCount <= 0) {
+      this.blobs.delete(contentHash);
+      this.globalCacheSize = Math.max(0, this.globalCacheSize - blob.data.length);
+    }
   }
 
   static async upload(
     workflowId: string,
     data: Buffer,
     contentType: string,
-    ttl?: number
-  ): Promise<{ fileKey: string; contentType: string }> {
-    // Wait for any existing upload for this workflow to complete
-    const existingLock = this.uploadLocks.get(workflowId);
-    if (existingLock) {
-      try {
-        return await existingLock;
-      } catch (error) {
-        this.warn(`Upload lock failed for workflow ${workflowId}: ${error}`);
-        this.uploadLocks.delete(workflowId);
-      }
-    }
+    ttl?: number,
+    options: UploadOptions = {}
+  ): Promise<UploadResult> {
+    await this.ensureRestored();
+    return this.withUploadLock(workflowId, () =>
+      this.uploadInternal(workflowId, data, contentType, ttl, options)
+    );
+  }
 
-    // Create new lock for this upload
-    const lockPromise = (async () => {
-      try {
-        return await this.uploadInternal(workflowId, data, contentType, ttl);
-      } finally {
-        // Release lock
+  /**
+   * Run uploads of a workflow one after another, each with its own result
+   */
+  private static async withUploadLock<T>(workflowId: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.uploadLocks.get(workflowId) ?? Promise.resolve();
+    const current = previous.catch(() => undefined).then(task);
+    this.uploadLocks.set(workflowId, current);
+
+    try {
+      return await current;
+    } finally {
+      // Release lock if no other upload queued behind this one
+      if (this.uploadLocks.get(workflowId) === current) {
         this.uploadLocks.delete(workflowId);
       }
-    })();
-
-    this.uploadLocks.set(workflowId, lockPromise);
-    return lockPromise;
+    }
   }
 
   private static async uploadInternal(
     workflowId: string,
     data: Buffer,
     contentType: string,
-    ttl?: number
-  ): Promise<{ fileKey: string; contentType: string }> {
-    const fileKey = this.generateFileKey();
+    ttl?: number,
+    options: UploadOptions = {}
+  ): Promise<UploadResult> {
+    const fileKey = resolveFileKey(
+      options,
+      (key) => this.getLiveFile(workflowId, key) !== undefined
+    );
+
     const now = Date.now();
     const expiresAt = now + (ttl || this.DEFAULT_TTL);
     const fileSize = data.length;
+    const contentHash = createHash('sha256').update(data).digest('hex');
+
+    // Recomputed after each cleanup, since evictions can drop any of the blobs involved
+    const neededBytes = (scope: 'global' | 'workflow'): number => {
+      const references = (blob: MemoryBlob | undefined) =>
+        scope === 'global' ? (blob?.refCount ?? 0) : (blob?.workflowRefs.get(workflowId) ?? 0);
+
+      // Contents that are already stored cost no extra space
+      if (references(this.blobs.get(contentHash)) > 0) {
+        return 0;
+      }
+      // An overwritten file frees its contents unless another file shares them
+      const replaced = this.workflowCaches.get(workflowId)?.cache.get(fileKey);
+      const replacedBlob = replaced && this.blobs.get(replaced.contentHash);
+      return fileSize - (references(replacedBlob) === 1 ? replacedBlob!.data.length : 0);
+    };
 
     // Lazy cleanup: only trigger if expiration is imminent
     if (this.nextGlobalExpirationTime && now >= this.nextGlobalExpirationTime) {
-      this.cleanupAllExpired();
+      this.removeAllExpired();
     }
 
-    if (this.globalCacheSize + fileSize > this.GLOBAL_MAX_CACHE_SIZE) {
-      this.cleanupAllExpired();
-      if (this.globalCacheSize + fileSize > this.GLOBAL_MAX_CACHE_SIZE) {
-        this.cleanupOldestGlobal(fileSize);
+    const quotaPolicy = options.quotaPolicy ?? 'evictOldest';
+    const evictionStrategy = options.evictionStrategy ?? 'oldestUpload';
+    const workflowQuota = options.workflowQuota ?? this.MAX_CACHE_SIZE;
+
+    if (this.globalCacheSize + neededBytes('global') > this.GLOBAL_MAX_CACHE_SIZE) {
+      if (quotaPolicy !== 'fail') {
+        this.removeAllExpired();
+      }
+      if (quotaPolicy === 'evictOldest' && this.globalCacheSize + neededBytes('global') > this.GLOBAL_MAX_CACHE_SIZE) {
+        this.cleanupOldestGlobal(neededBytes('global'), evictionStrategy);
+      }
+      if (quotaPolicy !== 'evictOldest' && this.globalCacheSize + neededBytes('global') > this.GLOBAL_MAX_CACHE_SIZE) {
+        throw new StorageQuotaError(
+          `Global storage limit of ${this.GLOBAL_MAX_CACHE_SIZE} bytes reached`,
+          'global'
+        );
       }
     }
 
@@ -243,60 +565,50 @@ export class MemoryStorage {
       this.cleanupWorkflowExpired(workflowId);
     }
 
-    if (workflowCache.cacheSize + fileSize > this.MAX_CACHE_SIZE) {
-      this.cleanupWorkflowExpired(workflowId);
-      if (workflowCache.cacheSize + fileSize > this.MAX_CACHE_SIZE) {
-        this.cleanupOldestInWorkflow(workflowId, fileSize);
+    if (workflowCache.cacheSize + neededBytes('workflow') > workflowQuota) {
+      if (quotaPolicy !== 'fail') {
+        this.cleanupWorkflowExpired(workflowId);
+      }
+      if (quotaPolicy === 'evictOldest' && workflowCache.cacheSize + neededBytes('workflow') > workflowQuota) {
+        this.cleanupOldestInWorkflow(workflowId, neededBytes('workflow'), evictionStrategy);
+      }
+      if (quotaPolicy !== 'evictOldest' && workflowCache.cacheSize + neededBytes('workflow') > workflowQuota) {
+        throw new StorageQuotaError(
+          `Workflow storage quota of ${workflowQuota} bytes reached ` +
+          `(${workflowCache.cacheSize} bytes in use, ${neededBytes('workflow')} bytes needed)`,
+          'workflow'
+        );
       }
     }
 
     const file: MemoryFile = {
       data,
       contentType,
+      contentHash,
       uploadedAt: now,
       expiresAt,
+      maxDownloads: options.maxDownloads,
+      remainingDownloads: options.maxDownloads,
+      fileName: options.fileName,
+      disposition: options.disposition,
+      contentEncoding: options.contentEncoding,
+      decodedSize: options.contentEncoding ? options.decodedSize : undefined,
+      slidingTtl: options.slidingTtl,
+      accessSecrets: options.accessSecrets,
+      accessRules: options.accessRules,
     };
 
-    // Check if fileKey already exists (very unlikely but handle it)
-    const existingFile = workflowCache.cache.get(fileKey);
-    if (existingFile) {
-      this.decreaseCacheSize(workflowCache, existingFile.data.length);
-
-      const queueIndex = workflowCache.queueIndex.get(fileKey);
-      if (queueIndex !== undefined) {
-        workflowCache.expirationQueue.splice(queueIndex, 1);
-        workflowCache.queueIndex.delete(fileKey);
-      }
-    }
+    // The overwritten file is only released once the new one is sure to be stored
+    this.deleteFile(workflowId, fileKey);
+    this.exhaustedFiles.delete(this.UPLOAD_QUEUE_INDEX_KEY(workflowId, fileKey));
 
+    file.data = this.retainBlob(workflowId, workflowCache, data, contentHash);
     workflowCache.cache.set(fileKey, file);
-    this.increaseCacheSize(workflowCache, fileSize);
-
-    this.heapPush({ workflowId, fileKey, uploadedAt: now });
-
-    const entry = { fileKey, expiresAt };
-
-    let insertIndex = workflowCache.expirationQueue.length;
-    let left = 0;
-    let right = workflowCache.expirationQueue.length - 1;
-
-    while (left <= right) {
-      const mid = Math.floor((left + right) / 2);
-      const midExpiresAt = workflowCache.expirationQueue[mid].expiresAt;
-
-      if (midExpiresAt <= expiresAt) {
-        left = mid + 1;
-      } else {
-        right = mid - 1;
-        insertIndex = mid;
-      }
-    }
 
-    workflowCache.expirationQueue.splice(insertIndex, 0, entry);
+    this.addToEvictionHeaps(workflowId, fileKey, file);
+    this.enqueueExpiration(workflowCache, fileKey, expiresAt);
+    this.count(workflowId, 'uploads');
 
-    workflowCache.queueIndex.set(fileKey, insertIndex);
-
-    workflowCache.nextExpirationTime = workflowCache.expirationQueue[0]?.expiresAt;
     if (!this.nextGlobalExpirationTime || expiresAt < this.nextGlobalExpirationTime) {
       this.nextGlobalExpirationTime = expiresAt;
     }
@@ -307,51 +619,171 @@ export class MemoryStorage {
   static async download(
     workflowId: string,
     fileKey: string
-  ): Promise<{ data: Buffer; contentType: string } | null> {
+  ): Promise<DownloadResult | null> {
+    await this.ensureRestored();
+    const file = this.getLiveFile(workflowId, fileKey);
+    if (!file) {
+      return null;
+    }
+
+    file.lastAccessedAt = Date.now();
+    this.evictionHeaps.leastRecentlyAccessed.update(
+      workflowId,
+      fileKey,
+      evictionPriority(file, 'leastRecentlyAccessed')
+    );
+
+    return {
+      ...this.toMetadata(file),
+      data: file.data,
+    };
+  }
+
+  static async getMetadata(workflowId: string, fileKey: string): Promise<FileMetadata | null> {
+    await this.ensureRestored();
+    const file = this.getLiveFile(workflowId, fileKey);
+    return file ? this.toMetadata(file) : null;
+  }
+
+  static async updateExpiry(
+    workflowId: string,
+    fileKey: string,
+    expiresAt: number
+  ): Promise<FileMetadata | null> {
+    await this.ensureRestored();
+    const file = this.getLiveFile(workflowId, fileKey);
+    if (!file) {
+      return null;
+    }
+
+    this.setExpiresAt(workflowId, this.workflowCaches.get(workflowId)!, fileKey, file, expiresAt);
+    return this.toMetadata(file);
+  }
+
+  /**
+   * Look up a file, deleting it if it has expired
+   */
+  private static getLiveFile(workflowId: string, fileKey: string): MemoryFile | undefined {
     const workflowCache = this.workflowCaches.get(workflowId);
     if (!workflowCache) {
-      return null;
+      return undefined;
     }
 
     const file = workflowCache.cache.get(fileKey);
 
     if (!file) {
-      return null;
+      return undefined;
     }
 
     if (Date.now() > file.expiresAt) {
-      this.delete(workflowId, fileKey);
-      return null;
+      this.deleteFile(workflowId, fileKey);
+      this.count(workflowId, 'expiredEvictions');
+      return undefined;
     }
 
+    return file;
+  }
+
+  private static toMetadata(file: MemoryFile): FileMetadata {
     return {
-      data: file.data,
       contentType: file.contentType,
+      contentHash: file.contentHash,
+      fileSize: file.decodedSize ?? file.data.length,
+      uploadedAt: file.uploadedAt,
+      expiresAt: file.expiresAt,
+      maxDownloads: file.maxDownloads,
+      remainingDownloads: file.remainingDownloads,
+      fileName: file.fileName,
+      disposition: file.disposition,
+      lastAccessedAt: file.lastAccessedAt,
+      slidingTtl: file.slidingTtl,
+      accessSecrets: file.accessSecrets,
+      accessRules: file.accessRules,
+      ...(file.analytics && {
+        analytics: { ...file.analytics, recentAccesses: [...file.analytics.recentAccesses] },
+      }),
+      ...(file.contentEncoding && {
+        contentEncoding: file.contentEncoding,
+        storedSize: file.data.length,
+      }),
     };
   }
 
+  static async recordDownload(workflowId: string, fileKey: string): Promise<boolean> {
+    await this.ensureRestored();
+    const file = this.getLiveFile(workflowId, fileKey);
+    if (!file) {
+      return false;
+    }
+
+    if (file.remainingDownloads !== undefined) {
+      if (file.remainingDownloads <= 0) {
+        return false;
+      }
+
+      file.remainingDownloads--;
+      if (file.remainingDownloads <= 0) {
+        this.deleteFile(workflowId, fileKey);
+        this.exhaustedFiles.set(this.UPLOAD_QUEUE_INDEX_KEY(workflowId, fileKey), file.expiresAt);
+        return true;
+      }
+    }
+
+    const expiresAt = slideExpiry(file, Date.now());
+    if (expiresAt !== file.expiresAt) {
+      this.setExpiresAt(workflowId, this.workflowCaches.get(workflowId)!, fileKey, file, expiresAt);
+    }
+    return true;
+  }
+
+  static async isExhausted(workflowId: string, fileKey: string): Promise<boolean> {
+    await this.ensureRestored();
+    const key = this.UPLOAD_QUEUE_INDEX_KEY(workflowId, fileKey);
+    const expiresAt = this.exhaustedFiles.get(key);
+    if (expiresAt === undefined) {
+      return false;
+    }
+    if (Date.now() > expiresAt) {
+      this.exhaustedFiles.delete(key);
+      return false;
+    }
+    return true;
+  }
+
+  static async recordAccess(
+    workflowId: string,
+    fileKey: string,
+    access: AccessRecord
+  ): Promise<void> {
+    await this.ensureRestored();
+    countAccess(this.getCounters(workflowId), access);
+    countAccess(this.totalCounters, access);
+
+    const file = this.workflowCaches.get(workflowId)?.cache.get(fileKey);
+    if (file) {
+      file.analytics = addAccessRecord(file.analytics, access);
+    }
+  }
+
   static async delete(workflowId: string, fileKey: string): Promise<boolean> {
+    await this.ensureRestored();
+    return this.deleteFile(workflowId, fileKey);
+  }
+
+  private static deleteFile(workflowId: string, fileKey: string): boolean {
     const workflowCache = this.workflowCaches.get(workflowId);
     if (!workflowCache) return false;
 
     const file = workflowCache.cache.get(fileKey);
     if (!file) return false;
 
-    this.decreaseCacheSize(workflowCache, file.data.length);
+    this.releaseBlob(workflowId, workflowCache, file.contentHash);
 
     const deleted = workflowCache.cache.delete(fileKey);
 
     if (deleted) {
-      const heapIndex = this.heapGetIndex(workflowId, fileKey);
-      if (heapIndex !== undefined) {
-        this.heapRemove(heapIndex);
-      }
-
-      const queueIndex = workflowCache.queueIndex.get(fileKey);
-      if (queueIndex !== undefined) {
-        workflowCache.expirationQueue.splice(queueIndex, 1);
-        workflowCache.queueIndex.delete(fileKey);
-      }
+      this.removeFromEvictionHeaps(workflowId, fileKey);
+      this.dequeueExpiration(workflowCache, fileKey);
 
       if (workflowCache.cache.size === 0) {
         workflowCache.nextExpirationTime = undefined;
@@ -365,6 +797,26 @@ export class MemoryStorage {
     return deleted;
   }
 
+  /**
+   * List unexpired files of a workflow, oldest upload first
+   */
+  static async list(workflowId: string): Promise<FileListEntry[]> {
+    await this.ensureRestored();
+    const workflowCache = this.workflowCaches.get(workflowId);
+    if (!workflowCache) {
+      return [];
+    }
+
+    const now = Date.now();
+    const files: FileListEntry[] = [];
+    for (const [fileKey, file] of workflowCache.cache.entries()) {
+      if (now > file.expiresAt) continue;
+      files.push({ fileKey, ...this.toMetadata(file) });
+    }
+
+    return files.sort((a, b) => a.uploadedAt - b.uploadedAt);
+  }
+
   static cleanupWorkflowExpired(workflowId: string): void {
     const workflowCache = this.workflowCaches.get(workflowId);
     if (!workflowCache) return;
@@ -391,16 +843,16 @@ export class MemoryStorage {
 
       const file = workflowCache.cache.get(fileKey);
       if (file) {
-        this.decreaseCacheSize(workflowCache, file.data.length);
+        this.releaseBlob(workflowId, workflowCache, file.contentHash);
         workflowCache.cache.delete(fileKey);
+        this.removeFromEvictionHeaps(workflowId, fileKey);
+        this.count(workflowId, 'expiredEvictions');
       }
 
       expiredCount++;
     }
 
-    if (expiredCount > 0) {
-      workflowCache.expirationQueue.splice(0, expiredCount);
-    }
+    this.shiftExpirationQueue(workflowCache, expiredCount);
 
     if (workflowCache.cache.size === 0) {
       workflowCache.nextExpirationTime = undefined;
@@ -409,7 +861,12 @@ export class MemoryStorage {
     }
   }
 
-  static cleanupAllExpired(): void {
+  static async cleanupAllExpired(): Promise<void> {
+    await this.ensureRestored();
+    this.removeAllExpired();
+  }
+
+  private static removeAllExpired(): void {
     const now = Date.now();
 
     // Skip cleanup if next expiration is in the future
@@ -444,9 +901,7 @@ export class MemoryStorage {
       }
 
       // Remove all expired files at once using splice (O(n) vs O(n²) with multiple shifts)
-      if (expiredCount > 0) {
-        workflowCache.expirationQueue.splice(0, expiredCount);
-      }
+      this.shiftExpirationQueue(workflowCache, expiredCount);
 
       // Update workflow's next expiration time
       if (workflowCache.cache.size > 0) {
@@ -461,48 +916,70 @@ export class MemoryStorage {
 
     // Delete collected expired files
     for (const { workflowId, fileKey } of expiredFiles) {
-      this.delete(workflowId, fileKey);
+      this.deleteFile(workflowId, fileKey);
+      this.count(workflowId, 'expiredEvictions');
     }
 
-    // Recalculate global next expiration time after deletion
-    if (this.workflowCaches.size > 0) {
-      let minExpiration = Infinity;
-      for (const workflowCache of this.workflowCaches.values()) {
-        if (workflowCache.nextExpirationTime && workflowCache.nextExpirationTime < minExpiration) {
-          minExpiration = workflowCache.nextExpirationTime;
-        }
+    for (const [key, expiresAt] of this.exhaustedFiles.entries()) {
+      if (now > expiresAt) {
+        this.exhaustedFiles.delete(key);
       }
-      this.nextGlobalExpirationTime = minExpiration === Infinity ? undefined : minExpiration;
-    } else {
-      this.nextGlobalExpirationTime = undefined;
     }
+
+    // Recalculate global next expiration time after deletion
+    this.refreshNextGlobalExpiration();
   }
 
-  static cleanupOldestInWorkflow(workflowId: string, requiredSpace: number): void {
+  static cleanupOldestInWorkflow(
+    workflowId: string,
+    requiredSpace: number,
+    strategy: EvictionStrategy = 'oldestUpload'
+  ): void {
     const workflowCache = this.workflowCaches.get(workflowId);
     if (!workflowCache) return;
 
     const entries = Array.from(workflowCache.cache.entries());
-    entries.sort((a, b) => a[1].uploadedAt - b[1].uploadedAt);
+    entries.sort((a, b) => evictionPriority(a[1], strategy) - evictionPriority(b[1], strategy));
+
+    // A blob only leaves the workflow's quota with the last of its files here, so files sharing
+    // contents are evicted together, after every file whose contents are its own
+    const groups = new Map<string, string[]>();
+    for (const [key, file] of entries) {
+      const group = groups.get(file.contentHash);
+      if (group) {
+        group.push(key);
+      } else {
+        groups.set(file.contentHash, [key]);
+      }
+    }
+    const orderedGroups = Array.from(groups.values()).sort(
+      (a, b) => Number(a.length > 1) - Number(b.length > 1)
+    );
 
     let freedSpace = 0;
     let deletedCount = 0;
 
-    for (const [key, file] of entries) {
-      // Stop if we freed enough space or hit max delete limit
-      if (freedSpace >= requiredSpace || deletedCount >= this.MAX_DELETE_PER_CLEANUP) {
+    for (const keys of orderedGroups) {
+      if (freedSpace >= requiredSpace) {
         break;
       }
 
-      // Always keep at least MIN_FILES_TO_KEEP files
-      const remainingFiles = entries.length - deletedCount;
-      if (remainingFiles <= this.MIN_FILES_TO_KEEP) {
-        break;
+      // Respect max delete limit and always keep at least MIN_FILES_TO_KEEP files;
+      // a smaller group further on may still fit
+      if (
+        deletedCount + keys.length > this.MAX_DELETE_PER_CLEANUP ||
+        entries.length - deletedCount - keys.length < this.MIN_FILES_TO_KEEP
+      ) {
+        continue;
       }
 
-      freedSpace += file.data.length;
-      this.delete(workflowId, key);
-      deletedCount++;
+      const sizeBefore = workflowCache.cacheSize;
+      for (const key of keys) {
+        this.deleteFile(workflowId, key);
+        this.count(workflowId, 'quotaEvictions');
+      }
+      freedSpace += sizeBefore - workflowCache.cacheSize;
+      deletedCount += keys.length;
     }
 
     // Log warning if we couldn't free enough space
@@ -515,32 +992,77 @@ export class MemoryStorage {
     }
   }
 
-  static cleanupOldestGlobal(requiredSpace: number): void {
+  static cleanupOldestGlobal(
+    requiredSpace: number,
+    strategy: EvictionStrategy = 'oldestUpload'
+  ): void {
+    const heap = this.evictionHeaps[strategy];
     let freedSpace = 0;
     let deletedCount = 0;
+    // Popped files whose contents other files still reference, grouped by blob in eviction order
+    const sharedGroups = new Map<string, HeapEntry[]>();
 
-    while (freedSpace < requiredSpace && deletedCount < this.MAX_DELETE_PER_CLEANUP && this.globalUploadQueue.length > 0) {
-      const entry = this.heapPop();
+    while (freedSpace < requiredSpace && deletedCount < this.MAX_DELETE_PER_CLEANUP && heap.size > 0) {
+      const entry = heap.pop();
       if (!entry) {
         break;
       }
 
-      const workflowCache = this.workflowCaches.get(entry.workflowId);
-      if (!workflowCache) {
+      const file = this.workflowCaches.get(entry.workflowId)?.cache.get(entry.fileKey);
+      if (!file) {
         continue;
       }
 
-      const file = workflowCache.cache.get(entry.fileKey);
-      if (!file) {
+      // Deleting one of several files sharing a blob frees nothing, so those wait until
+      // every file with unshared contents has been considered
+      if ((this.blobs.get(file.contentHash)?.refCount ?? 0) > 1) {
+        const group = sharedGroups.get(file.contentHash);
+        if (group) {
+          group.push(entry);
+        } else {
+          sharedGroups.set(file.contentHash, [entry]);
+        }
         continue;
       }
 
-      freedSpace += file.data.length;
-      this.delete(entry.workflowId, entry.fileKey);
+      const sizeBefore = this.globalCacheSize;
+      this.deleteFile(entry.workflowId, entry.fileKey);
+      this.count(entry.workflowId, 'quotaEvictions');
+      freedSpace += sizeBefore - this.globalCacheSize;
       deletedCount++;
     }
 
-    if (freedSpace < requiredSpace && deletedCount < this.globalUploadQueue.length) {
+    // Then evict whole groups, which frees their blob; a group is complete once all of its
+    // files have been popped
+    for (const [contentHash, group] of sharedGroups) {
+      if (freedSpace >= requiredSpace) {
+        break;
+      }
+      if (
+        group.length < (this.blobs.get(contentHash)?.refCount ?? 0) ||
+        deletedCount + group.length > this.MAX_DELETE_PER_CLEANUP
+      ) {
+        continue;
+      }
+
+      const sizeBefore = this.globalCacheSize;
+      for (const entry of group) {
+        this.deleteFile(entry.workflowId, entry.fileKey);
+        this.count(entry.workflowId, 'quotaEvictions');
+      }
+      freedSpace += sizeBefore - this.globalCacheSize;
+      deletedCount += group.length;
+      sharedGroups.delete(contentHash);
+    }
+
+    // Shared files that were popped but kept go back into the heap
+    for (const group of sharedGroups.values()) {
+      for (const entry of group) {
+        heap.push(entry.workflowId, entry.fileKey, entry.priority);
+      }
+    }
+
+    if (freedSpace < requiredSpace && deletedCount < heap.size) {
       this.warn(
         `Hit max delete limit (${this.MAX_DELETE_PER_CLEANUP}) ` +
         `but still need ${requiredSpace - freedSpace} bytes globally`
@@ -573,14 +1095,12 @@ export class MemoryStorage {
       const workflowCache = this.workflowCaches.get(workflowId);
       if (workflowCache) {
         for (const [fileKey, file] of workflowCache.cache.entries()) {
-          this.decreaseCacheSize(workflowCache, file.data.length);
-          const heapIndex = this.heapGetIndex(workflowId, fileKey);
-          if (heapIndex !== undefined) {
-            this.heapRemove(heapIndex);
-          }
+          this.releaseBlob(workflowId, workflowCache, file.contentHash);
+          this.removeFromEvictionHeaps(workflowId, fileKey);
         }
         workflowCache.cache.clear();
         workflowCache.expirationQueue = [];
+        workflowCache.queueIndex.clear();
         workflowCache.cacheSize = 0;
         workflowCache.nextExpirationTime = undefined;
       }
@@ -591,9 +1111,14 @@ export class MemoryStorage {
         workflowCache.nextExpirationTime = undefined;
       }
       this.workflowCaches.clear();
+      this.blobs.clear();
+      this.exhaustedFiles.clear();
+      this.counters.clear();
+      this.totalCounters = createStorageCounters();
       this.uploadLocks.clear();
-      this.globalUploadQueue = [];
-      this.globalUploadQueueIndex.clear();
+      for (const heap of Object.values(this.evictionHeaps)) {
+        heap.clear();
+      }
       this.globalCacheSize = 0;
       this.nextGlobalExpirationTime = undefined;
     }
@@ -618,9 +1143,14 @@ export class MemoryStorage {
     const workflowCache = this.workflowCaches.get(workflowId);
     if (!workflowCache) return false;
 
+    // Files sharing contents are counted once
+    const uniqueHashes = new Set<string>();
     let actualSize = 0;
     for (const [, file] of workflowCache.cache.entries()) {
-      actualSize += file.data.length;
+      if (!uniqueHashes.has(file.contentHash)) {
+        uniqueHashes.add(file.contentHash);
+        actualSize += file.data.length;
+      }
     }
 
     // If discrepancy exceeds threshold, warn and correct
@@ -633,10 +1163,8 @@ export class MemoryStorage {
 
       // Also recalculate global cache size
       let globalActual = 0;
-      for (const wc of this.workflowCaches.values()) {
-        for (const [, file] of wc.cache.entries()) {
-          globalActual += file.data.length;
-        }
+      for (const blob of this.blobs.values()) {
+        globalActual += blob.data.length;
       }
       if (Math.abs(this.globalCacheSize - globalActual) > this.VALIDATION_THRESHOLD) {
         this.warn(
@@ -660,6 +1188,8 @@ export class MemoryStorage {
       workflowCount: this.workflowCaches.size,
       totalFiles: 0,
       totalCacheSize: this.globalCacheSize,
+      totalDownloads: this.totalCounters.downloads,
+      totalNotFound: this.totalCounters.notFound,
     };
 
     for (const workflowCache of this.workflowCaches.values()) {
@@ -670,8 +1200,26 @@ export class MemoryStorage {
       const workflowCache = this.workflowCaches.get(workflowId);
       stats.workflowFiles = workflowCache?.cache.size ?? 0;
       stats.workflowCacheSize = workflowCache?.cacheSize ?? 0;
+      stats.workflowDownloads = this.counters.get(workflowId)?.downloads ?? 0;
+      stats.workflowNotFound = this.counters.get(workflowId)?.notFound ?? 0;
     }
 
     return stats;
   }
+
+  static getUsage(): StorageUsage {
+    const workflowIds = new Set([...this.workflowCaches.keys(), ...this.counters.keys()]);
+
+    return {
+      workflows: [...workflowIds].map((workflowId) => ({
+        workflowId,
+        fileCount: this.workflowCaches.get(workflowId)?.cache.size ?? 0,
+        cacheSize: this.workflowCaches.get(workflowId)?.cacheSize ?? 0,
+        counters: { ...this.getCounters(workflowId) },
+      })),
+      totalFiles: this.getCacheCount(),
+      totalCacheSize: this.globalCacheSize,
+      maxCacheSize: this.GLOBAL_MAX_CACHE_SIZE,
+    };
+  }
 }
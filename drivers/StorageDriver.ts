@@ -0,0 +1,471 @@
+import { randomInt, randomUUID } from 'crypto';
+import type { Logger } from 'n8n-workflow';
+// eslint-disable-next-line @n8n/community-nodes/no-restricted-imports -- type only, for streamed downloads
+import type { Readable } from 'stream';
+import { ANALYTICS, FILE_KEY, TTL } from '../config/constants.js';
+
+/**
+ * Result of a successful upload
+ */
+export interface UploadResult {
+  fileKey: string;
+  contentType: string;
+}
+
+/**
+ * What a driver does when an upload would exceed the workflow quota or the global cap
+ *
+ * - `evictOldest`: delete expired files, then the oldest uploads
+ * - `evictExpired`: delete expired files, then fail
+ * - `fail`: fail without deleting anything
+ */
+export type QuotaPolicy = 'evictOldest' | 'evictExpired' | 'fail';
+
+/**
+ * What an upload with a chosen file key does when a live file already uses the key
+ *
+ * - `fail`: reject with `FileKeyConflictError`
+ * - `overwrite`: replace the stored file, so its URL keeps working with the new contents
+ * - `suffix`: use the first free `{key}-2`, `{key}-3`, ...
+ */
+export type KeyConflictPolicy = 'fail' | 'overwrite' | 'suffix';
+
+/**
+ * Format of generated file keys: a UUIDv4, or `FILE_KEY.SHORT_LENGTH` base62 characters
+ */
+export type FileKeyFormat = 'uuid' | 'short';
+
+/**
+ * HTTP content coding of stored bytes
+ */
+export type ContentEncoding = 'gzip' | 'br';
+
+/**
+ * Which files are evicted first when room has to be made
+ *
+ * - `oldestUpload`: earliest `uploadedAt`
+ * - `leastRecentlyAccessed`: earliest download, or upload for files never downloaded
+ * - `soonestToExpire`: earliest `expiresAt`
+ */
+export type EvictionStrategy = 'oldestUpload' | 'leastRecentlyAccessed' | 'soonestToExpire';
+
+/**
+ * Sort key for eviction; files with the lowest value are evicted first
+ */
+export function evictionPriority(
+  file: Pick<FileMetadata, 'uploadedAt' | 'expiresAt' | 'lastAccessedAt'>,
+  strategy: EvictionStrategy
+): number {
+  switch (strategy) {
+    case 'leastRecentlyAccessed':
+      return file.lastAccessedAt ?? file.uploadedAt;
+    case 'soonestToExpire':
+      return file.expiresAt;
+    default:
+      return file.uploadedAt;
+  }
+}
+
+/**
+ * Expiry of a file with a sliding TTL after it has been downloaded
+ *
+ * The file stays available for `slidingTtl` after its latest download, but a slide never
+ * keeps it longer than `TTL.MAX` after upload and never brings the expiry forward.
+ */
+export function slideExpiry(
+  file: Pick<FileMetadata, 'uploadedAt' | 'expiresAt' | 'slidingTtl'>,
+  now: number
+): number {
+  if (!file.slidingTtl) {
+    return file.expiresAt;
+  }
+  return Math.max(
+    file.expiresAt,
+    Math.min(now + file.slidingTtl, file.uploadedAt + TTL.MAX * 1000)
+  );
+}
+
+/**
+ * Generate a cryptographically secure file key
+ */
+export function generateFileKey(format: FileKeyFormat = 'uuid'): string {
+  if (format === 'uuid') {
+    return randomUUID();
+  }
+  let key = '';
+  for (let i = 0; i < FILE_KEY.SHORT_LENGTH; i++) {
+    key += FILE_KEY.SHORT_ALPHABET[randomInt(FILE_KEY.SHORT_ALPHABET.length)];
+  }
+  return key;
+}
+
+/**
+ * Choose the key a new file is stored under
+ *
+ * Drivers call this inside their upload lock and, when `overwrite` returns a taken key,
+ * delete the old file before storing the new one.
+ * @param isTaken - Whether a live file of the workflow already uses a key
+ */
+export function resolveFileKey(options: UploadOptions, isTaken: (fileKey: string) => boolean): string {
+  const requested = options.fileKey;
+  if (!requested) {
+    let fileKey: string;
+    do {
+      fileKey = generateFileKey(options.keyFormat);
+    } while (isTaken(fileKey));
+    return fileKey;
+  }
+
+  const policy = options.keyConflict ?? 'fail';
+  if (policy === 'overwrite' || !isTaken(requested)) {
+    return requested;
+  }
+  if (policy === 'suffix') {
+    for (let suffix = 2; suffix <= FILE_KEY.MAX_SUFFIX; suffix++) {
+      const fileKey = `${requested}-${suffix}`;
+      if (!isTaken(fileKey)) {
+        return fileKey;
+      }
+    }
+  }
+  throw new FileKeyConflictError(`File key "${requested}" is already in use`, requested);
+}
+
+/**
+ * Salted hash of a download password (HTTP Basic auth) or bearer token (hex encoded)
+ */
+export interface AccessSecret {
+  type: 'password' | 'token';
+  salt: string;
+  hash: string;
+}
+
+/**
+ * Who may download a file, checked before credentials; a request must pass every rule that is set
+ */
+export interface AccessRules {
+  /** Client addresses and CIDR ranges */
+  ipRanges?: string[];
+  /** Hosts the `Origin` or `Referer` must name; `*.example.com` matches subdomains */
+  referrerHosts?: string[];
+}
+
+/**
+ * One request to a file's download URL
+ */
+export interface AccessRecord {
+  timestamp: number;
+  method: string;
+  /** HTTP status of the response */
+  status: number;
+  ip?: string;
+  userAgent?: string;
+  /** Set for `?meta=1` requests, which return JSON instead of the file */
+  meta?: boolean;
+}
+
+/**
+ * Download statistics kept per file
+ */
+export interface FileAnalytics {
+  /** GET responses that sent the file contents (200 or 206) */
+  downloadCount: number;
+  /** All requests, including HEAD, `?meta=1`, 304 and rejected signatures */
+  accessCount: number;
+  firstAccessAt?: number;
+  lastAccessAt?: number;
+  /** Latest requests, oldest first, at most `ANALYTICS.ACCESS_LOG_SIZE` */
+  recentAccesses: AccessRecord[];
+}
+
+/**
+ * Event totals kept per workflow since n8n started, including files that no longer exist
+ */
+export interface StorageCounters {
+  uploads: number;
+  downloads: number;
+  /** Requests for unknown, expired or used-up keys */
+  notFound: number;
+  /** Files deleted because their TTL passed */
+  expiredEvictions: number;
+  /** Files deleted to make room for an upload */
+  quotaEvictions: number;
+}
+
+export function createStorageCounters(): StorageCounters {
+  return { uploads: 0, downloads: 0, notFound: 0, expiredEvictions: 0, quotaEvictions: 0 };
+}
+
+export function isDownloadAccess(access: AccessRecord): boolean {
+  return (
+    access.method === 'GET' && !access.meta && (access.status === 200 || access.status === 206)
+  );
+}
+
+/**
+ * Requests for unknown, expired or used-up keys
+ */
+export function isNotFoundAccess(access: AccessRecord): boolean {
+  return access.status === 404 || access.status === 410;
+}
+
+/**
+ * Count a request against a file's analytics, dropping the oldest log entry when full
+ */
+export function addAccessRecord(
+  analytics: FileAnalytics | undefined,
+  access: AccessRecord
+): FileAnalytics {
+  const updated: FileAnalytics = analytics ?? { downloadCount: 0, accessCount: 0, recentAccesses: [] };
+
+  updated.accessCount++;
+  if (isDownloadAccess(access)) {
+    updated.downloadCount++;
+  }
+  updated.firstAccessAt ??= access.timestamp;
+  updated.lastAccessAt = access.timestamp;
+
+  updated.recentAccesses.push(access);
+  if (updated.recentAccesses.length > ANALYTICS.ACCESS_LOG_SIZE) {
+    updated.recentAccesses.splice(0, updated.recentAccesses.length - ANALYTICS.ACCESS_LOG_SIZE);
+  }
+
+  return updated;
+}
+
+/**
+ * Add a request to per-workflow totals
+ */
+export function countAccess(counters: StorageCounters, access: AccessRecord): void {
+  if (isDownloadAccess(access)) {
+    counters.downloads++;
+  } else if (isNotFoundAccess(access)) {
+    counters.notFound++;
+  }
+}
+
+/**
+ * Thrown by `upload()` when the file does not fit and the quota policy forbids eviction
+ */
+export class StorageQuotaError extends Error {
+  constructor(
+    message: string,
+    /** Which limit was hit */
+    readonly scope: 'workflow' | 'global'
+  ) {
+    super(message);
+    this.name = 'StorageQuotaError';
+  }
+}
+
+/**
+ * Thrown when an upload asks for a file key that is already in use
+ */
+export class FileKeyConflictError extends Error {
+  constructor(
+    message: string,
+    readonly fileKey: string
+  ) {
+    super(message);
+    this.name = 'FileKeyConflictError';
+  }
+}
+
+/**
+ * Per-file options chosen at upload time
+ */
+export interface UploadOptions {
+  /** Key to store the file under instead of a generated one; callers validate it */
+  fileKey?: string;
+  /** What happens when `fileKey` is taken; defaults to `fail` */
+  keyConflict?: KeyConflictPolicy;
+  /** Format of the generated key when `fileKey` is omitted; defaults to `uuid` */
+  keyFormat?: FileKeyFormat;
+  /** Delete the file after this many downloads (unlimited when omitted) */
+  maxDownloads?: number;
+  /** Original file name, sent in Content-Disposition */
+  fileName?: string;
+  /** Content-Disposition type; `auto` decides by MIME type */
+  disposition?: 'auto' | 'inline' | 'attachment';
+  /** Workflow quota in bytes for this upload (defaults to `CACHE_LIMITS.MAX_CACHE_SIZE`) */
+  workflowQuota?: number;
+  /** Defaults to `evictOldest` */
+  quotaPolicy?: QuotaPolicy;
+  /** Order in which `evictOldest` deletes files; defaults to `oldestUpload` */
+  evictionStrategy?: EvictionStrategy;
+  /** Set when `data` is already compressed; drivers store it as is */
+  contentEncoding?: ContentEncoding;
+  /** Size of the uncompressed contents when `contentEncoding` is set */
+  decodedSize?: number;
+  /** Milliseconds each counted download extends the expiry by, see `slideExpiry()` */
+  slidingTtl?: number;
+  /** Credentials required to download the file; any one of them is accepted */
+  accessSecrets?: AccessSecret[];
+  accessRules?: AccessRules;
+}
+
+/**
+ * Stored file attributes, available without reading the file contents
+ */
+export interface FileMetadata {
+  contentType: string;
+  /** SHA-256 of the file contents (hex) computed at upload time */
+  contentHash: string;
+  /** Size of the uncompressed contents */
+  fileSize: number;
+  /** Coding of the stored bytes; `download()` returns them still encoded */
+  contentEncoding?: ContentEncoding;
+  /** Size of the stored bytes, when they are encoded */
+  storedSize?: number;
+  uploadedAt: number;
+  expiresAt: number;
+  maxDownloads?: number;
+  remainingDownloads?: number;
+  fileName?: string;
+  disposition?: UploadOptions['disposition'];
+  /** Time of the last `download()`, unset until the file is first downloaded */
+  lastAccessedAt?: number;
+  /** Set when counted downloads extend the expiry */
+  slidingTtl?: number;
+  /** Unset until the download URL is first requested */
+  analytics?: FileAnalytics;
+  accessSecrets?: AccessSecret[];
+  accessRules?: AccessRules;
+}
+
+/**
+ * Entry returned when listing a workflow's files
+ */
+export interface FileListEntry extends FileMetadata {
+  fileKey: string;
+}
+
+/**
+ * File returned by a successful download
+ */
+export interface DownloadResult extends FileMetadata {
+  data: Buffer;
+}
+
+/**
+ * File returned by a successful `openFile()`
+ *
+ * The metadata and every stream read from it describe the version that was current when the
+ * file was opened, even if it is overwritten or deleted meanwhile.
+ */
+export interface OpenedFile extends FileMetadata {
+  /** Stream the stored bytes, still encoded, or only `range.start` to `range.end` (inclusive) */
+  createReadStream(range?: { start: number; end: number }): Readable;
+  /** Release the file once its streams are no longer needed */
+  close(): Promise<void>;
+}
+
+export interface StorageStats {
+  workflowCount: number;
+  totalFiles: number;
+  totalCacheSize: number;
+  /** Downloads served since n8n started, including files deleted since */
+  totalDownloads: number;
+  /** Requests for unknown, expired or used-up keys since n8n started */
+  totalNotFound: number;
+  workflowFiles?: number;
+  workflowCacheSize?: number;
+  workflowDownloads?: number;
+  workflowNotFound?: number;
+}
+
+/**
+ * Current contents and event totals of one workflow
+ */
+export interface WorkflowUsage {
+  workflowId: string;
+  fileCount: number;
+  cacheSize: number;
+  counters: StorageCounters;
+}
+
+/**
+ * Usage of a whole driver, for metrics
+ */
+export interface StorageUsage {
+  workflows: WorkflowUsage[];
+  totalFiles: number;
+  totalCacheSize: number;
+  /** Global cap, see `getGlobalMaxCacheSize()` */
+  maxCacheSize: number;
+}
+
+/**
+ * Common contract implemented by every storage backend
+ *
+ * Drivers are responsible for TTL expiration, per-workflow quota and global quota
+ * enforcement. `upload()` rejects with `StorageQuotaError` when the quota policy forbids
+ * making room. The node and webhook only ever talk to a driver through this interface.
+ */
+export interface StorageDriver {
+  setLogger(logger: Logger): void;
+  upload(
+    workflowId: string,
+    data: Buffer,
+    contentType: string,
+    ttl?: number,
+    options?: UploadOptions
+  ): Promise<UploadResult>;
+  /**
+   * Store a file read from a stream, without holding it in memory
+   *
+   * Optional; only drivers that keep files outside the heap implement it. Quotas are checked
+   * against `size`, and the upload fails unless the stream is exactly that long. `open` is
+   * called only once the file will be written, so a rejected upload never opens the stream.
+   */
+  uploadStream?(
+    workflowId: string,
+    open: () => Promise<NodeJS.ReadableStream>,
+    size: number,
+    contentType: string,
+    ttl?: number,
+    options?: UploadOptions
+  ): Promise<UploadResult>;
+  /**
+   * Read a file, recording the access time used by `leastRecentlyAccessed` eviction
+   */
+  download(workflowId: string, fileKey: string): Promise<DownloadResult | null>;
+  /**
+   * Open a file for streaming, recording the access time like `download()`
+   *
+   * Optional, like `uploadStream()`; drivers that implement it serve files without loading them
+   * into memory. Callers must `close()` the file.
+   */
+  openFile?(workflowId: string, fileKey: string): Promise<OpenedFile | null>;
+  /**
+   * Count one download against the file's download limit
+   *
+   * The check and decrement happen synchronously, so concurrent requests can never take
+   * more downloads than allowed. The file is deleted when its last download is taken.
+   * Files uploaded with `slidingTtl` get their expiry pushed back.
+   * @returns false if the file is gone or its downloads are used up
+   */
+  recordDownload(workflowId: string, fileKey: string): Promise<boolean>;
+  /**
+   * Whether a file was deleted because its download limit was reached (until its TTL passes)
+   */
+  isExhausted(workflowId: string, fileKey: string): Promise<boolean>;
+  /**
+   * Log a request to a download URL in the file's analytics and the workflow totals
+   */
+  recordAccess(workflowId: string, fileKey: string, access: AccessRecord): Promise<void>;
+  getMetadata(workflowId: string, fileKey: string): Promise<FileMetadata | null>;
+  /**
+   * Move a file's expiry to an earlier or later time
+   * @returns the updated metadata, or null if the file is gone
+   */
+  updateExpiry(workflowId: string, fileKey: string, expiresAt: number): Promise<FileMetadata | null>;
+  delete(workflowId: string, fileKey: string): Promise<boolean>;
+  list(workflowId: string): Promise<FileListEntry[]>;
+  getStats(workflowId?: string): StorageStats;
+  /**
+   * Per-workflow usage and counters, including workflows whose files are all gone
+   */
+  getUsage(): StorageUsage;
+  cleanupAllExpired(): void | Promise<void>;
+}
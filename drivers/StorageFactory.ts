@@ -0,0 +1,35 @@
+// eslint-disable-next-line @n8n/community-nodes/no-restricted-imports -- disk storage is opt-in and self-hosted only
+import * as os from 'os';
+// eslint-disable-next-line @n8n/community-nodes/no-restricted-imports -- disk storage is opt-in and self-hosted only
+import * as path from 'path';
+import { STORAGE } from '../config/constants.js';
+import { FileSystemStorage } from './FileSystemStorage.js';
+import { MemoryStorage } from './MemoryStorage.js';
+import type { StorageDriver } from './StorageDriver.js';
+
+// One FileSystemStorage per directory so its in-memory index stays authoritative
+const fileSystemDrivers = new Map<string, FileSystemStorage>();
+
+/**
+ * Resolve the storage driver selected on the node
+ * @param driver - Driver name (`memory` or `filesystem`)
+ * @param directory - Storage directory for the filesystem driver (defaults to the OS temp dir)
+ */
+export function getStorageDriver(driver: string, directory?: string): StorageDriver {
+  if (driver !== STORAGE.DRIVER_FILESYSTEM) {
+    return MemoryStorage;
+  }
+
+  const resolvedDirectory = path.resolve(
+    directory && directory.trim() !== ''
+      ? directory.trim()
+      : path.join(os.tmpdir(), STORAGE.DEFAULT_DIRECTORY_NAME)
+  );
+
+  let fileSystemDriver = fileSystemDrivers.get(resolvedDirectory);
+  if (!fileSystemDriver) {
+    fileSystemDriver = new FileSystemStorage(resolvedDirectory);
+    fileSystemDrivers.set(resolvedDirectory, fileSystemDriver);
+  }
+  return fileSystemDriver;
+}
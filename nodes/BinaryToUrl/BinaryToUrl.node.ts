@@ -1,4 +1,13 @@
+// eslint-disable-next-line @n8n/community-nodes/no-restricted-imports -- builds streamed multipart range responses
+import { Readable } from 'stream';
+// eslint-disable-next-line @n8n/community-nodes/no-restricted-imports -- streams disk storage downloads, which are opt-in and self-hosted only
+import { pipeline } from 'stream/promises';
 import {
+  ICredentialsDecrypted,
+  ICredentialTestFunctions,
+  IBinaryData,
+  IDataObject,
+  INodeCredentialTestResult,
   INodeType,
   INodeTypeDescription,
   IExecuteFunctions,
@@ -8,14 +17,141 @@ import {
   NodeOperationError,
   getNodeWebhookUrl,
 } from 'n8n-workflow';
-import { MemoryStorage } from '../../drivers/MemoryStorage.js';
+import { getStorageDriver } from '../../drivers/StorageFactory.js';
+import {
+  FileKeyConflictError,
+  StorageQuotaError,
+  type AccessRules,
+  type AccessSecret,
+  type ContentEncoding,
+  type DownloadResult,
+  type EvictionStrategy,
+  type FileAnalytics,
+  type FileKeyFormat,
+  type FileMetadata,
+  type KeyConflictPolicy,
+  type OpenedFile,
+  type QuotaPolicy,
+  type StorageDriver,
+  type UploadOptions,
+} from '../../drivers/StorageDriver.js';
 import {
   TTL,
   CACHE_LIMITS,
-  ALLOWED_MIME_TYPES,
-  DOWNLOAD_MIME_TYPES,
   HTTP_HEADERS,
+  STORAGE,
+  URL_SIGNING,
+  OPERATIONS,
+  ANALYTICS,
+  METRICS,
+  UPLOAD_MODES,
+  BUNDLE,
+  CONTENT_SNIFFING,
+  FILE_KEY,
+  IMAGE_VARIANTS,
 } from '../../config/constants.js';
+import { getTrustedProxies } from '../../config/environment.js';
+import {
+  parseRangeHeader,
+  formatContentRange,
+  buildMultipartByteranges,
+  reachesBothEnds,
+  type ByteRange,
+  type MultipartByteranges,
+} from './range.js';
+import {
+  formatETag,
+  formatRepresentationETag,
+  buildCacheControl,
+  isNotModified,
+  isIfRangeSatisfied,
+} from './conditional.js';
+import { signFileKey, verifyFileKeySignature } from './signing.js';
+import {
+  buildContentDisposition,
+  sanitizeFileName,
+  type DispositionMode,
+} from './contentDisposition.js';
+import {
+  isMimeTypeAllowed,
+  isPassiveMimeType,
+  isValidMimeTypePattern,
+  parseMimeTypeList,
+  type MimeTypePolicy,
+} from './mimeTypes.js';
+import { resolveContentType, type SniffingMode } from './sniffing.js';
+import {
+  getVariantFileName,
+  getVariantKey,
+  isResizableImage,
+  isVariantKey,
+  parseImageVariantQuery,
+  renderImageVariant,
+  renderOnce,
+  type ImageVariantRequest,
+  type ImageVariantResult,
+} from './imageVariants.js';
+import {
+  decodeContent,
+  encodeContent,
+  getEncodedVariant,
+  isCompressibleMimeType,
+  negotiateContentEncoding,
+  transcodeContent,
+  variesByEncoding,
+} from './compression.js';
+import { buildZipArchive, ZIP_MAX_ENTRIES, ZIP_MAX_SIZE, type ZipEntry } from './zip.js';
+import {
+  isBearerTokenValid,
+  recordRejectedUpload,
+  renderPrometheusMetrics,
+} from './metrics.js';
+import {
+  buildAuthenticateChallenges,
+  clearFailedAttempts,
+  getLockedUntil,
+  hashAccessSecret,
+  parseAuthorization,
+  recordFailedAttempt,
+  verifyAccessSecret,
+} from './accessProtection.js';
+import {
+  checkAccessRules,
+  parseIpRange,
+  parseReferrerHost,
+  resolveClientIp,
+} from './accessRules.js';
+
+type WebhookResponse = ReturnType<IWebhookFunctions['getResponseObject']>;
+
+/** Matches any run of characters in the upload Binary Property parameter */
+const BINARY_PROPERTY_WILDCARD = '*';
+
+/**
+ * Values of the Upload File "Options" collection
+ */
+interface UploadNodeOptions {
+  accessPassword?: string;
+  accessToken?: string;
+  allowedIpRanges?: string;
+  allowedMimeTypes?: string;
+  allowedReferrers?: string;
+  blockedMimeTypes?: string;
+  contentSniffing?: SniffingMode;
+  customFileKey?: string;
+  keyConflict?: KeyConflictPolicy;
+  keyFormat?: FileKeyFormat;
+  maxDownloads?: number;
+  fileName?: string;
+  disposition?: DispositionMode;
+  maxFileSize?: number;
+  workflowQuota?: number;
+  quotaPolicy?: QuotaPolicy;
+  evictionStrategy?: EvictionStrategy;
+  storeCompressed?: boolean;
+  skipMissingProperties?: boolean;
+  slidingExpiration?: boolean;
+}
 
 export class BinaryToUrl implements INodeType {
   description: INodeTypeDescription = {
@@ -24,12 +160,25 @@ export class BinaryToUrl implements INodeType {
     icon: 'file:BinaryToUrl.svg',
     group: ['transform'],
     version: 1,
-    description: 'Store binary files temporarily in memory and retrieve via webhook URL',
+    subtitle: '={{$parameter["operation"]}}',
+    description: 'Store binary files temporarily in memory or on disk and retrieve via webhook URL',
     defaults: {
       name: 'Binary to URL',
     },
     inputs: ['main'],
     outputs: ['main'],
+    credentials: [
+      {
+        name: 'binaryToUrlSigningApi',
+        required: true,
+        testedBy: 'signingSecretTest',
+        displayOptions: {
+          show: {
+            signUrls: [true],
+          },
+        },
+      },
+    ],
     webhooks: [
       {
         name: 'default',
@@ -38,14 +187,167 @@ export class BinaryToUrl implements INodeType {
         path: 'file',
         isFullPath: false,
       },
+      {
+        name: 'default',
+        httpMethod: 'HEAD',
+        responseMode: 'onReceived',
+        path: 'file',
+        isFullPath: false,
+      },
+      {
+        name: 'default',
+        httpMethod: 'GET',
+        responseMode: 'onReceived',
+        path: 'metrics',
+        isFullPath: false,
+      },
     ],
     properties: [
+      {
+        displayName: 'Operation',
+        name: 'operation',
+        type: 'options',
+        noDataExpression: true,
+        options: [
+          {
+            name: 'Delete File',
+            value: 'delete',
+            description: 'Delete a stored file so its URL stops working',
+            action: 'Delete a file',
+          },
+          {
+            name: 'Download File',
+            value: 'download',
+            description: 'Output a stored file as binary data',
+            action: 'Download a file',
+          },
+          {
+            name: 'Get File Info',
+            value: 'getInfo',
+            description: 'Get content type, size, expiry and download history of a stored file',
+            action: 'Get file info',
+          },
+          {
+            name: 'Get Storage Stats',
+            value: 'getStats',
+            description: 'Get file counts and cache sizes',
+            action: 'Get storage stats',
+          },
+          {
+            name: 'List Files',
+            value: 'list',
+            description: 'List the unexpired files of this workflow',
+            action: 'List files',
+          },
+          {
+            name: 'Update Expiry',
+            value: 'updateExpiry',
+            description: 'Extend or shorten the TTL of a stored file',
+            action: 'Update file expiry',
+          },
+          {
+            name: 'Upload File',
+            value: 'upload',
+            description: 'Store a binary file and return a temporary URL',
+            action: 'Upload a file',
+          },
+        ],
+        default: 'upload',
+      },
+      {
+        displayName: 'Storage Driver',
+        name: 'storageDriver',
+        type: 'options',
+        options: [
+          {
+            name: 'Memory',
+            value: 'memory',
+            description: 'Keep files in n8n memory (lost on restart)',
+          },
+          {
+            name: 'Filesystem',
+            value: 'filesystem',
+            description: 'Write files to a local directory (survives restarts)',
+          },
+        ],
+        default: 'memory',
+        description: 'Where uploaded files are stored',
+      },
+      {
+        displayName: 'Storage Directory',
+        name: 'storageDirectory',
+        type: 'string',
+        default: '',
+        placeholder: '/data/binary-to-url',
+        description:
+          'Directory for stored files. Leave empty to use a folder in the system temp directory.',
+        displayOptions: {
+          show: {
+            storageDriver: ['filesystem'],
+          },
+        },
+      },
+      {
+        displayName: 'File Key',
+        name: 'fileKey',
+        type: 'string',
+        required: true,
+        default: '',
+        placeholder: '550e8400-e29b-41d4-a716-446655440000',
+        description: 'Key of the stored file, as returned by the Upload File operation',
+        displayOptions: {
+          show: {
+            operation: ['delete', 'download', 'getInfo', 'updateExpiry'],
+          },
+        },
+      },
+      {
+        displayName: 'Upload Mode',
+        name: 'uploadMode',
+        type: 'options',
+        options: [
+          {
+            name: 'Bundle as ZIP',
+            value: 'bundle',
+            description: 'Zip the files of all items into one archive with a single URL',
+          },
+          {
+            name: 'Separate Files',
+            value: 'perItem',
+            description: 'Store the file of each item under its own URL',
+          },
+        ],
+        default: 'perItem',
+        displayOptions: {
+          show: {
+            operation: ['upload'],
+          },
+        },
+      },
+      {
+        displayName: 'Binary Property',
+        name: 'binaryPropertyName',
+        type: 'string',
+        default: 'data',
+        description:
+          'Name of the binary property containing the file to upload. Separate several names with commas, or use <code>*</code> wildcards (e.g. <code>attachment_*</code>, or <code>*</code> for all properties).',
+        displayOptions: {
+          show: {
+            operation: ['upload'],
+          },
+        },
+      },
       {
         displayName: 'Binary Property',
         name: 'binaryPropertyName',
         type: 'string',
         default: 'data',
-        description: 'Name of binary property containing the file to upload',
+        description: 'Name of the binary property to write the file to',
+        displayOptions: {
+          show: {
+            operation: ['download'],
+          },
+        },
       },
       {
         displayName: 'TTL (Seconds)',
@@ -53,20 +355,408 @@ export class BinaryToUrl implements INodeType {
         type: 'number',
         default: 600,
         description: 'How long the file remains accessible (60-604800 seconds, default: 600)',
+        displayOptions: {
+          show: {
+            operation: ['upload'],
+          },
+        },
+      },
+      {
+        displayName: 'TTL (Seconds)',
+        name: 'ttl',
+        type: 'number',
+        default: 600,
+        description:
+          'New remaining lifetime of the file, counted from now (60-604800 seconds). May be shorter or longer than its current TTL.',
+        displayOptions: {
+          show: {
+            operation: ['updateExpiry'],
+          },
+        },
+      },
+      {
+        displayName: 'Sign URLs',
+        name: 'signUrls',
+        type: 'boolean',
+        default: false,
+        description:
+          'Whether to add an expiry timestamp and HMAC signature to download URLs. Unsigned, tampered or expired links are rejected with 403.',
+      },
+      {
+        displayName: 'Link Expiry (Seconds)',
+        name: 'linkExpiry',
+        type: 'number',
+        default: 600,
+        description:
+          'How long a signed link stays valid. Capped at the file TTL, so links can be shorter-lived than the stored file but never outlive it.',
+        displayOptions: {
+          show: {
+            operation: ['upload'],
+            signUrls: [true],
+          },
+        },
+      },
+      {
+        displayName: 'Expose Metrics',
+        name: 'exposeMetrics',
+        type: 'boolean',
+        default: false,
+        description:
+          'Whether to serve Prometheus metrics for all stored files at this node\'s <code>/metrics</code> webhook path',
+      },
+      {
+        displayName: 'Metrics Token',
+        name: 'metricsToken',
+        type: 'string',
+        typeOptions: {
+          password: true,
+        },
+        default: '',
+        description:
+          'Bearer token scrapers must send in the Authorization header. Leave empty to allow anyone who knows the URL.',
+        displayOptions: {
+          show: {
+            exposeMetrics: [true],
+          },
+        },
+      },
+      {
+        displayName: 'Options',
+        name: 'options',
+        type: 'collection',
+        placeholder: 'Add Option',
+        default: {},
+        displayOptions: {
+          show: {
+            operation: ['upload'],
+          },
+        },
+        options: [
+          {
+            displayName: 'Access Password',
+            name: 'accessPassword',
+            type: 'string',
+            typeOptions: { password: true },
+            default: '',
+            description:
+              'Require this password to download the file. Browsers prompt for it; clients send it with HTTP Basic auth and any user name.',
+          },
+          {
+            displayName: 'Access Token',
+            name: 'accessToken',
+            type: 'string',
+            typeOptions: { password: true },
+            default: '',
+            description:
+              'Require an <code>Authorization: Bearer</code> header with this token to download the file. If a password is also set, either one works.',
+          },
+          {
+            displayName: 'Additional Allowed MIME Types',
+            name: 'allowedMimeTypes',
+            type: 'string',
+            default: '',
+            placeholder: 'text/calendar, application/gpx+xml, image/*',
+            description:
+              'Comma-separated MIME types to accept on top of the built-in list. Use <code>type/*</code> to allow a whole family.',
+          },
+          {
+            displayName: 'Allowed IP Ranges',
+            name: 'allowedIpRanges',
+            type: 'string',
+            default: '',
+            placeholder: '203.0.113.0/24, 2001:db8::/32, 198.51.100.7',
+            description:
+              'Comma-separated client addresses or CIDR ranges allowed to download the file. Others get a 403.',
+          },
+          {
+            displayName: 'Allowed Referrer Hosts',
+            name: 'allowedReferrers',
+            type: 'string',
+            default: '',
+            placeholder: 'example.com, *.example.com',
+            description:
+              'Comma-separated hosts the download must come from, by <code>Origin</code> or <code>Referer</code> header. <code>*.example.com</code> matches subdomains. Requests without either header get a 403.',
+          },
+          {
+            displayName: 'Blocked MIME Types',
+            name: 'blockedMimeTypes',
+            type: 'string',
+            default: '',
+            placeholder: 'image/svg+xml, video/*',
+            description:
+              'Comma-separated MIME types to reject, even if they are allowed by default. Supports <code>type/*</code> wildcards.',
+          },
+          {
+            displayName: 'Content Disposition',
+            name: 'disposition',
+            type: 'options',
+            options: [
+              {
+                name: 'Auto',
+                value: 'auto',
+                description: 'Download archives and executables, display everything else in the browser',
+              },
+              {
+                name: 'Inline',
+                value: 'inline',
+                description: 'Display the file in the browser when possible',
+              },
+              {
+                name: 'Attachment',
+                value: 'attachment',
+                description: 'Always download the file',
+              },
+            ],
+            default: 'auto',
+            description: 'Whether the browser should display or download the file',
+          },
+          {
+            displayName: 'Content Type Detection',
+            name: 'contentSniffing',
+            type: 'options',
+            options: [
+              {
+                name: 'Correct Mismatches',
+                value: 'correct',
+                description: 'Replace a MIME type that does not match the file contents with the detected type',
+              },
+              {
+                name: 'Fill In Missing',
+                value: 'fillMissing',
+                description: 'Detect the type only when the binary data has none or is application/octet-stream',
+              },
+              {
+                name: 'Off',
+                value: 'off',
+                description: 'Trust the MIME type of the binary data',
+              },
+              {
+                name: 'Reject Mismatches',
+                value: 'reject',
+                description: 'Fail the upload when the MIME type does not match the file contents',
+              },
+            ],
+            default: 'fillMissing',
+            description: 'Whether to check the MIME type against the file signature (magic bytes)',
+          },
+          {
+            displayName: 'Custom File Key',
+            name: 'customFileKey',
+            type: 'string',
+            default: '',
+            placeholder: 'invoice-{{ $json.number }}',
+            description:
+              'Key to store the file under instead of a random one, giving a readable URL. Up to 120 letters, digits, "-" or "_". With several binary properties, "-{property}" is appended.',
+          },
+          {
+            displayName: 'Eviction Strategy',
+            name: 'evictionStrategy',
+            type: 'options',
+            options: [
+              {
+                name: 'Least Recently Downloaded',
+                value: 'leastRecentlyAccessed',
+                description: 'Evict the files that have gone longest without a download',
+              },
+              {
+                name: 'Oldest Upload',
+                value: 'oldestUpload',
+                description: 'Evict the files that were uploaded first',
+              },
+              {
+                name: 'Soonest to Expire',
+                value: 'soonestToExpire',
+                description: 'Evict the files closest to the end of their TTL',
+              },
+            ],
+            default: 'oldestUpload',
+            description: 'Which files are deleted first when the quota is exceeded and older files may be evicted',
+          },
+          {
+            displayName: 'Extend TTL on Download',
+            name: 'slidingExpiration',
+            type: 'boolean',
+            default: false,
+            description:
+              'Whether each download resets the expiry to a full TTL from now. Files are still deleted 7 days after upload at the latest.',
+          },
+          {
+            displayName: 'File Name',
+            name: 'fileName',
+            type: 'string',
+            default: '',
+            description:
+              'Name sent to the browser when the file is opened or saved. Defaults to the file name of the binary data, or files.zip for bundles. Ignored when several binary properties are uploaded.',
+          },
+          {
+            displayName: 'Generated Key Format',
+            name: 'keyFormat',
+            type: 'options',
+            options: [
+              {
+                name: 'Short',
+                value: 'short',
+                description: '10 random letters and digits, e.g. 4fZq8LmT2x',
+              },
+              {
+                name: 'UUID',
+                value: 'uuid',
+                description: 'A random UUID, e.g. 0b7e6c3e-4d0a-4c1e-9a53-2f1f4c6d8e21',
+              },
+            ],
+            default: 'uuid',
+            description: 'Format of random file keys. Ignored when a custom file key is set.',
+          },
+          {
+            displayName: 'If File Key Exists',
+            name: 'keyConflict',
+            type: 'options',
+            options: [
+              {
+                name: 'Add a Suffix',
+                value: 'suffix',
+                description: 'Store the file under the first free key of {key}-2, {key}-3 and so on',
+              },
+              {
+                name: 'Fail the Upload',
+                value: 'fail',
+                description: 'Keep the existing file and report an error',
+              },
+              {
+                name: 'Overwrite',
+                value: 'overwrite',
+                description: 'Replace the existing file, so its URL serves the new contents',
+              },
+            ],
+            default: 'fail',
+            description: 'What to do when a file with the custom file key is still stored',
+          },
+          {
+            displayName: 'Max Downloads',
+            name: 'maxDownloads',
+            type: 'number',
+            typeOptions: {
+              minValue: 0,
+            },
+            default: 0,
+            description:
+              'Delete the file after it has been downloaded this many times. Later requests get 410 Gone. 0 means unlimited.',
+          },
+          {
+            displayName: 'Max File Size (MB)',
+            name: 'maxFileSize',
+            type: 'number',
+            typeOptions: {
+              minValue: 0,
+              numberPrecision: 2,
+            },
+            default: 100,
+            description: 'Reject files larger than this',
+          },
+          {
+            displayName: 'Skip Missing Binary Properties',
+            name: 'skipMissingProperties',
+            type: 'boolean',
+            default: false,
+            description:
+              'Whether to skip binary properties that an item does not have instead of failing. Items without any of them are passed through unchanged.',
+          },
+          {
+            displayName: 'Store Compressed',
+            name: 'storeCompressed',
+            type: 'boolean',
+            default: false,
+            description:
+              'Whether to gzip text-based files (CSV, JSON, XML, plain text, ...) in storage so they use less of the quota. Already-compressed formats are stored as they are.',
+          },
+          {
+            displayName: 'When Quota Is Exceeded',
+            name: 'quotaPolicy',
+            type: 'options',
+            options: [
+              {
+                name: 'Evict Older Files',
+                value: 'evictOldest',
+                description: 'Delete expired files, then files picked by the eviction strategy, even if their links were already shared',
+              },
+              {
+                name: 'Evict Expired Files Only',
+                value: 'evictExpired',
+                description: 'Delete expired files, then fail the upload if there is still not enough space',
+              },
+              {
+                name: 'Fail the Upload',
+                value: 'fail',
+                description: 'Never delete files to make room',
+              },
+            ],
+            default: 'evictOldest',
+            description: 'What to do when the workflow quota or the global storage limit would be exceeded',
+          },
+          {
+            displayName: 'Workflow Quota (MB)',
+            name: 'workflowQuota',
+            type: 'number',
+            typeOptions: {
+              minValue: 0,
+              numberPrecision: 2,
+            },
+            default: 100,
+            description: 'Maximum total size of the files this workflow keeps in storage',
+          },
+        ],
       },
     ],
     usableAsTool: true,
   };
 
+  methods = {
+    credentialTest: {
+      async signingSecretTest(
+        this: ICredentialTestFunctions,
+        credential: ICredentialsDecrypted
+      ): Promise<INodeCredentialTestResult> {
+        const secret = credential.data?.secret;
+        if (typeof secret !== 'string' || secret.length < URL_SIGNING.MIN_SECRET_LENGTH) {
+          return {
+            status: 'Error',
+            message: `Signing secret must be at least ${URL_SIGNING.MIN_SECRET_LENGTH} characters`,
+          };
+        }
+        return { status: 'OK', message: 'Signing secret is valid' };
+      },
+    },
+  };
+
   async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
-    // Initialize logger for MemoryStorage
-    MemoryStorage.setLogger(this.logger);
-    return handleUpload(this, this.getInputData());
+    const storage = resolveStorageDriver(this);
+    // Initialize logger for the storage driver
+    storage.setLogger(this.logger);
+
+    const operation = this.getNodeParameter('operation', 0, OPERATIONS.UPLOAD) as string;
+    const items = this.getInputData();
+
+    switch (operation) {
+      case OPERATIONS.DELETE:
+        return handleDelete(this, storage, items);
+      case OPERATIONS.DOWNLOAD:
+        return handleDownload(this, storage, items);
+      case OPERATIONS.GET_INFO:
+        return handleGetInfo(this, storage, items);
+      case OPERATIONS.LIST:
+        return handleList(this, storage);
+      case OPERATIONS.GET_STATS:
+        return handleGetStats(this, storage);
+      case OPERATIONS.UPDATE_EXPIRY:
+        return handleUpdateExpiry(this, storage, items);
+      default:
+        return handleUpload(this, storage, items);
+    }
   }
 
   async webhook(this: IWebhookFunctions): Promise<IWebhookResponseData> {
-    const query = this.getQueryData();
-    const fileKey = (query as { fileKey?: string }).fileKey;
+    const query = this.getQueryData() as IDataObject;
+    const fileKey = query.fileKey as string | undefined;
     const workflow = this.getWorkflow();
     const workflowId = workflow.id;
 
@@ -75,253 +765,1936 @@ export class BinaryToUrl implements INodeType {
 
     // Validate workflowId type
     if (typeof workflowId !== 'string' || !workflowId) {
-      const errorBody = JSON.stringify({ error: 'Invalid workflow ID' });
-      response.writeHead(500, {
-        'Content-Type': 'application/json',
-        'Content-Length': Buffer.byteLength(errorBody),
-      });
-      response.end(errorBody);
-      return { noWebhookResponse: true };
+      return sendJsonError(response, 500, 'Invalid workflow ID');
+    }
+
+    if (isMetricsRequest(this.getRequestObject().path)) {
+      return serveMetrics(this, response);
     }
 
     if (!fileKey) {
-      const errorBody = JSON.stringify({ error: 'Missing fileKey' });
-      response.writeHead(400, {
-        'Content-Type': 'application/json',
-        'Content-Length': Buffer.byteLength(errorBody),
-      });
-      response.end(errorBody);
-      return { noWebhookResponse: true };
+      return sendJsonError(response, 400, 'Missing fileKey');
     }
 
     if (!isValidFileKey(fileKey)) {
-      const errorBody = JSON.stringify({ error: 'Invalid fileKey' });
-      response.writeHead(400, {
-        'Content-Type': 'application/json',
-        'Content-Length': Buffer.byteLength(errorBody),
-      });
-      response.end(errorBody);
-      return { noWebhookResponse: true };
+      return sendJsonError(response, 400, 'Invalid fileKey');
     }
 
-    try {
-      const result = await MemoryStorage.download(workflowId, fileKey);
-
-      if (!result) {
-        const errorBody = JSON.stringify({ error: 'File not found or expired' });
-        response.writeHead(404, {
-          'Content-Type': 'application/json',
-          'Content-Length': Buffer.byteLength(errorBody),
-        });
-        response.end(errorBody);
-        return { noWebhookResponse: true };
-      }
+    const storage = resolveStorageDriver(this);
+    storage.setLogger(this.logger);
+    const clientIp = getClientIp(this);
+    const reply = await serveFile(this, response, storage, workflowId, fileKey, query, clientIp);
 
-      // Return binary file directly
-      const isDownload = DOWNLOAD_MIME_TYPES.includes(result.contentType);
-      const disposition = isDownload
-        ? HTTP_HEADERS.DISPOSITION_ATTACHMENT
-        : HTTP_HEADERS.DISPOSITION_INLINE;
-
-      response.writeHead(200, {
-        'Content-Type': result.contentType,
-        'Content-Length': result.data.length,
-        'Cache-Control': HTTP_HEADERS.CACHE_CONTROL,
-        'Content-Disposition': disposition,
+    // Recorded after responding, with the final status, so every outcome is counted
+    const request = this.getRequestObject();
+    const userAgent = this.getHeaderData()['user-agent'] as string | undefined;
+    try {
+      await storage.recordAccess(workflowId, fileKey, {
+        timestamp: Date.now(),
+        method: request.method,
+        status: response.statusCode,
+        ...(clientIp && { ip: clientIp }),
+        ...(userAgent && { userAgent: userAgent.slice(0, ANALYTICS.MAX_USER_AGENT_LENGTH) }),
+        ...(isMetadataRequest(query) && { meta: true }),
       });
-      response.end(result.data);
-
-      return { noWebhookResponse: true };
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      this.logger.error(`Error downloading file: ${errorMessage}`);
-      const errorBody = JSON.stringify({ error: errorMessage });
-      response.writeHead(500, {
-        'Content-Type': 'application/json',
-        'Content-Length': Buffer.byteLength(errorBody),
-      });
-      response.end(errorBody);
-      return { noWebhookResponse: true };
+      this.logger.warn(`Failed to record access to ${fileKey}: ${error}`);
     }
+
+    return reply;
   }
 }
 
 /**
- * Generate webhook URL for file downloads
- * @returns Base webhook URL (without query parameters)
+ * Answer a request for a valid file key: check the signature, then send the file, its
+ * headers or its JSON metadata
  */
-function generateWebhookUrl(
-  context: IExecuteFunctions,
-  workflowId: string
-): string {
-  const node = context.getNode();
-  const baseUrl = context.getInstanceBaseUrl();
-
-  // Get webhook path from n8n
-  const webhookPath = getNodeWebhookUrl('', workflowId, node, 'file', false);
-  if (!webhookPath) {
-    throw new NodeOperationError(
-      context.getNode(),
-      'Failed to generate webhook path. This is usually caused by:\n' +
-      '1. Workflow not saved - Make sure to save the workflow before executing\n' +
-      '2. n8n configuration issue - Check that n8n is properly configured\n' +
-      '3. Workflow ID is invalid - Try recreating the workflow node'
+async function serveFile(
+  context: IWebhookFunctions,
+  response: WebhookResponse,
+  storage: StorageDriver,
+  workflowId: string,
+  fileKey: string,
+  query: IDataObject,
+  clientIp: string | undefined
+): Promise<IWebhookResponseData> {
+  // Verify signed URL before touching storage
+  let linkExpiresAt: number | undefined;
+  if (getNodeSetting(context, 'signUrls', false)) {
+    const credentials = await context.getCredentials(URL_SIGNING.CREDENTIAL_NAME);
+    const expires = query.expires as string | undefined;
+    const signature = query.signature as string | undefined;
+    const check = verifyFileKeySignature(
+      credentials.secret as string,
+      workflowId,
+      fileKey,
+      expires,
+      signature
     );
+
+    if (check === 'missing') {
+      return sendJsonError(response, 403, 'Missing signature');
+    }
+    if (check === 'invalid') {
+      return sendJsonError(response, 403, 'Invalid signature');
+    }
+    if (check === 'expired') {
+      return sendJsonError(response, 403, 'Link expired');
+    }
+    linkExpiresAt = parseInt(expires as string, 10) * 1000;
   }
 
-  // Clean and build URL: remove extra slashes
-  const cleanBaseUrl = baseUrl.replace(/\/+$/, '');
-  const cleanPath = webhookPath.replace(/^\/+/, '');
+  try {
+    const metadata = await storage.getMetadata(workflowId, fileKey);
+    if (!metadata) {
+      return sendFileNotFound(response, storage, workflowId, fileKey);
+    }
 
-  const webhookUrl = `${cleanBaseUrl}/webhook/${cleanPath}`;
+    if (metadata.accessRules) {
+      const headers = context.getHeaderData();
+      const violation = checkAccessRules(
+        metadata.accessRules,
+        clientIp,
+        headers.origin as string | undefined,
+        headers.referer as string | undefined
+      );
+      if (violation) {
+        return sendJsonError(response, 403, violation);
+      }
+    }
 
-  // Validate URL format
-  if (!webhookUrl.includes('/webhook/')) {
-    throw new NodeOperationError(
-      context.getNode(),
-      `Generated webhook URL has invalid format: ${webhookUrl}\n` +
-      `Expected format: ${cleanBaseUrl}/webhook/{path}/file\n` +
-      `Please check your n8n version and configuration.`
-    );
-  }
+    // Protected files answer nothing, not even metadata, without valid credentials
+    if (metadata.accessSecrets) {
+      const denied = await checkAccessCredentials(
+        context,
+        response,
+        `${workflowId}:${fileKey}`,
+        metadata.accessSecrets
+      );
+      if (denied) {
+        return denied;
+      }
+    }
 
-  return webhookUrl;
+    // ?meta=1 returns file information as JSON instead of the file
+    if (isMetadataRequest(query)) {
+      return sendJson(response, 200, buildFileInfo(metadata), {
+        'Cache-Control': HTTP_HEADERS.CACHE_CONTROL_NO_STORE,
+      });
+    }
+
+    // ?w=, ?h=, ?fit= and ?format= ask for a resized or converted copy; other files ignore them
+    if (isResizableImage(metadata.contentType)) {
+      const variantQuery = parseImageVariantQuery(query);
+      if (variantQuery.type === 'invalid') {
+        return sendJsonError(response, 400, variantQuery.error);
+      }
+      if (variantQuery.type === 'variant') {
+        return await serveImageVariant(
+          context,
+          response,
+          storage,
+          workflowId,
+          fileKey,
+          metadata,
+          variantQuery.request,
+          linkExpiresAt
+        );
+      }
+    }
+
+    // HEAD only needs headers, so skip reading the file contents. Drivers that stream files are
+    // opened here, so the headers describe the same version as the bytes sent
+    const isHead = context.getRequestObject().method === 'HEAD';
+    const result: FileMetadata | DownloadResult | OpenedFile | null = isHead
+      ? metadata
+      : storage.openFile
+        ? await storage.openFile(workflowId, fileKey)
+        : await storage.download(workflowId, fileKey);
+
+    if (!result) {
+      return sendFileNotFound(response, storage, workflowId, fileKey);
+    }
+
+    try {
+      return await sendStoredFile(
+        context,
+        response,
+        storage,
+        workflowId,
+        fileKey,
+        result,
+        isHead,
+        linkExpiresAt
+      );
+    } finally {
+      if (isOpenedFile(result)) {
+        await result.close();
+      }
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    context.logger.error(`Error downloading file: ${errorMessage}`);
+    return sendJsonError(response, 500, errorMessage);
+  }
 }
 
 /**
- * Convert n8n binary data to Buffer
+ * Send a file that passed the signature and access checks, with headers built from `result`
+ *
+ * `result` is the file's metadata for HEAD requests, otherwise the downloaded or opened file.
  */
-function binaryToBuffer(
-  binaryData: { data: Buffer | string | { $binary?: string } },
-  mimeType: string,
-  context: IExecuteFunctions
-): Buffer {
-  const data = binaryData.data;
+async function sendStoredFile(
+  context: IWebhookFunctions,
+  response: WebhookResponse,
+  storage: StorageDriver,
+  workflowId: string,
+  fileKey: string,
+  result: FileMetadata | DownloadResult | OpenedFile,
+  isHead: boolean,
+  linkExpiresAt: number | undefined
+): Promise<IWebhookResponseData> {
+  // Return binary file directly
+  const disposition = buildContentDisposition(
+    result.disposition,
+    result.contentType,
+    result.fileName
+  );
+
+  const headers = context.getHeaderData();
+  const fileSize = result.fileSize;
+  // Download-limited files are always sent whole: separate range requests could otherwise
+  // fetch every byte without one of them counting as a download
+  const rangesAllowed = result.maxDownloads === undefined;
+  const contentEncoding = negotiateContentEncoding(
+    headers['accept-encoding'] as string | undefined,
+    result.contentType,
+    result.contentEncoding,
+    fileSize,
+    rangesAllowed && headers.range !== undefined
+  );
+  const validators = {
+    etag: formatRepresentationETag(
+      result.contentHash,
+      result.contentEncoding,
+      contentEncoding
+    ),
+    lastModified: result.uploadedAt,
+  };
+  const commonHeaders = {
+    'Accept-Ranges': rangesAllowed ? HTTP_HEADERS.ACCEPT_RANGES : HTTP_HEADERS.ACCEPT_RANGES_NONE,
+    'Cache-Control': buildFileCacheControl(result, linkExpiresAt),
+    'Content-Disposition': disposition,
+    ETag: validators.etag,
+    'Last-Modified': new Date(result.uploadedAt).toUTCString(),
+    'X-Content-Type-Options': HTTP_HEADERS.NO_SNIFF,
+    // Allowed types may include markup (HTML, SVG, XML) that would otherwise run scripts on this origin
+    ...(!isPassiveMimeType(result.contentType) && {
+      'Content-Security-Policy': HTTP_HEADERS.FILE_CONTENT_SECURITY_POLICY,
+    }),
+    ...(variesByEncoding(result.contentType, result.contentEncoding) && {
+      Vary: HTTP_HEADERS.VARY_ACCEPT_ENCODING,
+    }),
+  };
 
-  if (Buffer.isBuffer(data)) {
-    return data;
+  if (
+    isNotModified(
+      headers['if-none-match'],
+      headers['if-modified-since'],
+      validators
+    )
+  ) {
+    response.writeHead(304, commonHeaders);
+    response.end();
+    return { noWebhookResponse: true };
   }
 
-  if (typeof data === 'string') {
-    return Buffer.from(data, 'base64');
+  if (isHead) {
+    // The length of an on-the-fly encoding is unknown without compressing the file
+    const contentLength = !contentEncoding
+      ? fileSize
+      : contentEncoding === result.contentEncoding
+        ? result.storedSize
+        : undefined;
+    response.writeHead(200, {
+      ...commonHeaders,
+      'Content-Type': result.contentType,
+      ...(contentEncoding && { 'Content-Encoding': contentEncoding }),
+      ...(contentLength !== undefined && { 'Content-Length': contentLength }),
+    });
+    response.end();
+    return { noWebhookResponse: true };
   }
 
-  if (data && typeof data === 'object') {
-    const binaryValue = (data as { $binary?: string }).$binary || data;
-    return Buffer.from(binaryValue as string, 'base64');
+  const range =
+    rangesAllowed && isIfRangeSatisfied(headers['if-range'] as string | undefined, validators)
+      ? parseRangeHeader(headers.range, fileSize)
+      : { type: 'none' as const };
+
+  if (range.type === 'unsatisfiable') {
+    response.writeHead(416, {
+      ...commonHeaders,
+      'Content-Range': formatContentRange(undefined, fileSize),
+      'Content-Length': 0,
+    });
+    response.end();
+    return { noWebhookResponse: true };
   }
 
-  throw new NodeOperationError(
-    context.getNode(),
-    `Unsupported binary data format: ${typeof data}`
-  );
-}
+  // Identity unless negotiated, and always identity for range requests. Bytes sent as stored
+  // are streamed by drivers that support it, which read only the requested ranges
+  const data =
+    'data' in result || result.contentEncoding !== contentEncoding
+      ? await loadFileContents(result, contentEncoding)
+      : undefined;
+  const source = data ?? (isOpenedFile(result) ? result : null);
+  if (!source) {
+    return sendFileNotFound(response, storage, workflowId, fileKey);
+  }
 
-async function handleUpload(
-  context: IExecuteFunctions,
-  items: INodeExecutionData[]
-): Promise<INodeExecutionData[][]> {
-  // Validate input
-  if (!items || items.length === 0) {
-    throw new NodeOperationError(
-      context.getNode(),
-      'No input data provided'
+  // Seeks within a file don't count (or slide a sliding TTL), whole-file requests do
+  const countsAsDownload = range.type === 'none' || reachesBothEnds(range.ranges, fileSize);
+
+  if (range.type === 'ranges' && range.ranges.length > 1) {
+    if (countsAsDownload && !(await storage.recordDownload(workflowId, fileKey))) {
+      return sendFileNotFound(response, storage, workflowId, fileKey);
+    }
+
+    const multipart = buildMultipartByteranges(range.ranges, fileSize, result.contentType);
+    response.writeHead(206, {
+      ...commonHeaders,
+      'Content-Type': multipart.contentType,
+      'Content-Length': multipart.length,
+    });
+    await sendBody(
+      context,
+      response,
+      Readable.from(streamMultipartBody(source, multipart), { objectMode: false })
     );
+    return { noWebhookResponse: true };
   }
 
-  const binaryPropertyName = context.getNodeParameter('binaryPropertyName', 0) as string;
+  if (countsAsDownload && !(await storage.recordDownload(workflowId, fileKey))) {
+    return sendFileNotFound(response, storage, workflowId, fileKey);
+  }
 
-  if (!binaryPropertyName || binaryPropertyName.trim() === '') {
-    throw new NodeOperationError(
-      context.getNode(),
-      'Binary property name cannot be empty'
-    );
+  const byteRange = range.type === 'ranges' ? range.ranges[0] : undefined;
+  const body = readFileBody(source, byteRange);
+
+  if (byteRange) {
+    response.writeHead(206, {
+      ...commonHeaders,
+      'Content-Type': result.contentType,
+      'Content-Range': formatContentRange(byteRange, fileSize),
+      'Content-Length': byteRange.end - byteRange.start + 1,
+    });
+    await sendBody(context, response, body);
+    return { noWebhookResponse: true };
   }
 
-  const ttl = context.getNodeParameter('ttl', 0) as number;
+  response.writeHead(200, {
+    ...commonHeaders,
+    'Content-Type': result.contentType,
+    ...(contentEncoding && { 'Content-Encoding': contentEncoding }),
+    // Streamed bodies are the stored bytes
+    'Content-Length': Buffer.isBuffer(body) ? body.length : (result.storedSize ?? fileSize),
+  });
+  await sendBody(context, response, body);
 
-  if (ttl < TTL.MIN) {
-    throw new NodeOperationError(
-      context.getNode(),
-      `TTL must be at least ${TTL.MIN} seconds. Got: ${ttl}`
+  return { noWebhookResponse: true };
+}
+
+/**
+ * Send a resized or converted copy of an image, rendering and storing it on first request
+ *
+ * Variants are stored as files of the workflow, under keys that have no URL of their own. They
+ * expire with the original and count against the workflow quota; when it is full they are
+ * sent without being kept. Headers follow the original's caching and disposition.
+ */
+async function serveImageVariant(
+  context: IWebhookFunctions,
+  response: WebhookResponse,
+  storage: StorageDriver,
+  workflowId: string,
+  fileKey: string,
+  metadata: FileMetadata,
+  request: ImageVariantRequest,
+  linkExpiresAt: number | undefined
+): Promise<IWebhookResponseData> {
+  if (metadata.fileSize > IMAGE_VARIANTS.MAX_INPUT_SIZE) {
+    return sendJsonError(
+      response,
+      422,
+      `Images over ${IMAGE_VARIANTS.MAX_INPUT_SIZE / 1024 / 1024}MB cannot be resized`
     );
   }
-  if (ttl > TTL.MAX) {
-    throw new NodeOperationError(
-      context.getNode(),
-      `TTL cannot exceed ${TTL.MAX} seconds. Got: ${ttl}`
-    );
+
+  const result = await loadImageVariant(context, storage, workflowId, fileKey, metadata, request);
+  if (!result) {
+    return sendFileNotFound(response, storage, workflowId, fileKey);
+  }
+  if (result.type !== 'rendered') {
+    // A missing library is a setup problem, so it is logged; bad images are the client's
+    if (result.type === 'unavailable') {
+      context.logger.warn(result.error);
+    }
+    return sendJsonError(response, result.type === 'unavailable' ? 501 : 422, result.error);
   }
+  const variant = result.image;
 
-  const workflow = context.getWorkflow();
-  const workflowId = workflow.id;
+  const validators = { etag: formatETag(variant.contentHash), lastModified: metadata.uploadedAt };
+  const headers = {
+    'Accept-Ranges': HTTP_HEADERS.ACCEPT_RANGES_NONE,
+    'Cache-Control': buildFileCacheControl(metadata, linkExpiresAt),
+    'Content-Disposition': buildContentDisposition(
+      metadata.disposition,
+      variant.contentType,
+      getVariantFileName(metadata.fileName, request)
+    ),
+    ETag: validators.etag,
+    'Last-Modified': new Date(metadata.uploadedAt).toUTCString(),
+    'X-Content-Type-Options': HTTP_HEADERS.NO_SNIFF,
+  };
 
-  // Validate workflowId type
-  if (typeof workflowId !== 'string' || !workflowId) {
-    throw new NodeOperationError(
-      context.getNode(),
-      'Invalid workflow ID: expected a non-empty string'
-    );
+  const requestHeaders = context.getHeaderData();
+  if (
+    isNotModified(
+      requestHeaders['if-none-match'],
+      requestHeaders['if-modified-since'],
+      validators
+    )
+  ) {
+    response.writeHead(304, headers);
+    response.end();
+    return { noWebhookResponse: true };
   }
 
-  const webhookUrlBase = generateWebhookUrl(context, workflowId);
+  // A variant is a whole copy of the image, so it counts as a download of the original
+  const isHead = context.getRequestObject().method === 'HEAD';
+  if (!isHead && !(await storage.recordDownload(workflowId, fileKey))) {
+    return sendFileNotFound(response, storage, workflowId, fileKey);
+  }
 
-  const returnData: INodeExecutionData[] = [];
+  response.writeHead(200, {
+    ...headers,
+    'Content-Type': variant.contentType,
+    'Content-Length': variant.data.length,
+  });
+  response.end(isHead ? undefined : variant.data);
+  return { noWebhookResponse: true };
+}
 
-  for (const item of items) {
-    const binaryData = item.binary?.[binaryPropertyName];
+/**
+ * Read a stored variant, or render it from the original and store it for later requests
+ * @returns null if the original is gone
+ */
+async function loadImageVariant(
+  context: IWebhookFunctions,
+  storage: StorageDriver,
+  workflowId: string,
+  fileKey: string,
+  metadata: FileMetadata,
+  request: ImageVariantRequest
+): Promise<ImageVariantResult | null> {
+  const variantKey = getVariantKey(fileKey, metadata.contentHash, request);
+  const stored = await storage.download(workflowId, variantKey);
+  if (stored) {
+    return {
+      type: 'rendered',
+      image: {
+        data: stored.data,
+        contentType: stored.contentType,
+        contentHash: stored.contentHash,
+      },
+    };
+  }
 
-    if (!binaryData) {
-      throw new NodeOperationError(
-        context.getNode(),
-        `No binary data found in property "${binaryPropertyName}"`
-      );
+  return renderOnce(`${workflowId}:${variantKey}`, async () => {
+    const original = await storage.download(workflowId, fileKey);
+    // The variant key names the contents it is made from
+    if (!original || original.contentHash !== metadata.contentHash) {
+      return null;
     }
 
-    // Convert binary data to Buffer
-    const buffer = binaryToBuffer(binaryData, binaryData.mimeType || 'application/octet-stream', context);
-
-    const contentType = binaryData.mimeType || 'application/octet-stream';
-
-    if (!ALLOWED_MIME_TYPES.includes(contentType)) {
-      throw new NodeOperationError(
-        context.getNode(),
-        `MIME type "${contentType}" is not allowed. Allowed types: ${ALLOWED_MIME_TYPES.join(', ')}`
-      );
+    const result = await renderImageVariant(
+      await transcodeContent(original.data, original.contentEncoding, undefined),
+      original.contentType,
+      request
+    );
+    if (result.type !== 'rendered') {
+      return result;
     }
 
-    const fileSize = buffer.length;
-    if (fileSize > CACHE_LIMITS.MAX_FILE_SIZE) {
-      throw new NodeOperationError(
-        context.getNode(),
-        `File size exceeds maximum limit of ${CACHE_LIMITS.MAX_FILE_SIZE / 1024 / 1024}MB`
+    try {
+      // A variant never evicts uploads to make room for itself
+      await storage.upload(
+        workflowId,
+        result.image.data,
+        result.image.contentType,
+        Math.max(1, original.expiresAt - Date.now()),
+        { fileKey: variantKey, keyConflict: 'overwrite', quotaPolicy: 'fail' }
       );
+    } catch (error) {
+      // Storing is only a cache; the rendered variant is sent either way
+      const message = `Image variant ${variantKey} sent without storing it: ${(error as Error).message}`;
+      if (error instanceof StorageQuotaError) {
+        context.logger.debug(message);
+      } else {
+        context.logger.warn(message);
+      }
     }
+    return result;
+  });
+}
+
+/**
+ * Cache-Control for a file response
+ *
+ * Caches must drop the response when the file or the signed link expires. Download-limited,
+ * protected and restricted files must not be served from a shared cache at all.
+ */
+function buildFileCacheControl(file: FileMetadata, linkExpiresAt: number | undefined): string {
+  return file.maxDownloads !== undefined || file.accessSecrets || file.accessRules
+    ? HTTP_HEADERS.CACHE_CONTROL_NO_STORE
+    : buildCacheControl(Math.min(file.expiresAt, linkExpiresAt ?? Infinity));
+}
+
+/**
+ * Whether the request came in on the `metrics` webhook path rather than `file`
+ */
+function isMetricsRequest(requestPath: string | undefined): boolean {
+  return (requestPath ?? '').replace(/\/+$/, '').endsWith(`/${METRICS.PATH}`);
+}
 
-    const result = await MemoryStorage.upload(workflowId, buffer, contentType, ttl * 1000);
-    const proxyUrl = `${webhookUrlBase}?fileKey=${result.fileKey}`;
+/**
+ * Answer a Prometheus scrape, if metrics are enabled and the bearer token matches
+ */
+async function serveMetrics(
+  context: IWebhookFunctions,
+  response: WebhookResponse
+): Promise<IWebhookResponseData> {
+  if (!getNodeSetting(context, 'exposeMetrics', false)) {
+    return sendJsonError(response, 404, 'Metrics are disabled');
+  }
 
-    context.logger.info(
-      `File uploaded: ${result.fileKey}, size: ${fileSize}, contentType: ${contentType}, ttl: ${ttl}s`
+  const token = getNodeSetting(context, 'metricsToken', '');
+  const authorization = context.getHeaderData().authorization as string | undefined;
+  if (token && !isBearerTokenValid(authorization, token)) {
+    return sendJson(
+      response,
+      401,
+      { error: 'Invalid or missing bearer token' },
+      { 'WWW-Authenticate': 'Bearer realm="metrics"' }
     );
+  }
 
-    returnData.push({
-      json: {
-        fileKey: result.fileKey,
-        proxyUrl,
-        contentType,
-        fileSize,
-      },
-    });
+  const storage = resolveStorageDriver(context);
+  // Expired files are counted as evictions before they are reported
+  await storage.cleanupAllExpired();
+
+  const body = renderPrometheusMetrics(storage.getUsage());
+  response.writeHead(200, {
+    'Content-Type': METRICS.CONTENT_TYPE,
+    'Content-Length': Buffer.byteLength(body),
+    'Cache-Control': HTTP_HEADERS.CACHE_CONTROL_NO_STORE,
+  });
+  response.end(body);
+  return { noWebhookResponse: true };
+}
+
+/**
+ * Address of the client, taken from `X-Forwarded-For` only behind a trusted proxy
+ */
+function getClientIp(context: IWebhookFunctions): string | undefined {
+  const trustedProxies = getTrustedProxies()
+    .map((entry) => parseIpRange(entry))
+    .filter((range): range is string => range !== undefined);
+
+  return resolveClientIp(
+    context.getRequestObject().socket?.remoteAddress,
+    context.getHeaderData()['x-forwarded-for'],
+    trustedProxies
+  );
+}
+
+/**
+ * Check the Authorization header of a request for a protected file
+ *
+ * Requests without credentials get a 401 challenge. Wrong credentials count towards a lockout
+ * of the file, during which every request gets a 429 without the credentials being checked.
+ * @returns the response sent when access is denied, or undefined to serve the file
+ */
+async function checkAccessCredentials(
+  context: IWebhookFunctions,
+  response: WebhookResponse,
+  lockoutKey: string,
+  secrets: AccessSecret[]
+): Promise<IWebhookResponseData | undefined> {
+  const now = Date.now();
+  const lockedUntil = getLockedUntil(lockoutKey, now);
+  if (lockedUntil !== undefined) {
+    return sendTooManyFailedAttempts(response, lockedUntil, now);
   }
 
-  return [returnData];
+  const challenge = { 'WWW-Authenticate': buildAuthenticateChallenges(secrets) };
+  const credential = parseAuthorization(
+    context.getHeaderData().authorization as string | undefined
+  );
+  if (!credential) {
+    return sendJson(response, 401, { error: 'Authentication required' }, challenge);
+  }
+
+  if (await verifyAccessSecret(credential, secrets)) {
+    clearFailedAttempts(lockoutKey);
+    return undefined;
+  }
+
+  const lockedNow = recordFailedAttempt(lockoutKey, now);
+  if (lockedNow !== undefined) {
+    return sendTooManyFailedAttempts(response, lockedNow, now);
+  }
+  return sendJson(response, 401, { error: 'Invalid credentials' }, challenge);
 }
 
+function sendTooManyFailedAttempts(
+  response: WebhookResponse,
+  lockedUntil: number,
+  now: number
+): IWebhookResponseData {
+  return sendJson(response, 429, { error: 'Too many failed attempts' }, {
+    'Retry-After': String(Math.ceil((lockedUntil - now) / 1000)),
+  });
+}
+
+/**
+ * Send a JSON body on the native response
+ */
+function sendJson(
+  response: WebhookResponse,
+  statusCode: number,
+  body: IDataObject,
+  extraHeaders: Record<string, string | string[]> = {}
+): IWebhookResponseData {
+  const jsonBody = JSON.stringify(body);
+  response.writeHead(statusCode, {
+    ...extraHeaders,
+    'Content-Type': 'application/json',
+    'Content-Length': Buffer.byteLength(jsonBody),
+    'X-Content-Type-Options': HTTP_HEADERS.NO_SNIFF,
+  });
+  response.end(jsonBody);
+  return { noWebhookResponse: true };
+}
+
+/**
+ * Send a JSON error body on the native response
+ */
+function sendJsonError(
+  response: WebhookResponse,
+  statusCode: number,
+  message: string
+): IWebhookResponseData {
+  return sendJson(response, statusCode, { error: message });
+}
+
+/**
+ * Answer 410 for files whose download limit was reached, 404 otherwise
+ */
+async function sendFileNotFound(
+  response: WebhookResponse,
+  storage: StorageDriver,
+  workflowId: string,
+  fileKey: string
+): Promise<IWebhookResponseData> {
+  if (await storage.isExhausted(workflowId, fileKey)) {
+    return sendJsonError(response, 410, 'Download limit reached');
+  }
+  return sendJsonError(response, 404, 'File not found or expired');
+}
+
+/**
+ * Read a file into memory for a response, in `encoding` (identity when unset)
+ */
+async function loadFileContents(
+  file: FileMetadata | DownloadResult | OpenedFile,
+  encoding: ContentEncoding | undefined
+): Promise<Buffer | null> {
+  const transcode = async (): Promise<Buffer | null> => {
+    const stored =
+      'data' in file
+        ? file.data
+        : isOpenedFile(file)
+          ? await readStreamHead(file.createReadStream(), file.storedSize ?? file.fileSize)
+          : null;
+    return stored && transcodeContent(stored, file.contentEncoding, encoding);
+  };
+
+  // Compressing is the costly direction, so those results are reused across requests
+  return encoding && encoding !== file.contentEncoding
+    ? getEncodedVariant(file.contentHash, encoding, transcode)
+    : transcode();
+}
+
+/**
+ * Bytes of a file, or of one range of it: sliced when the file was loaded into memory,
+ * otherwise streamed from the opened file
+ */
+function readFileBody(source: Buffer | OpenedFile, range?: ByteRange): Buffer | Readable {
+  if (Buffer.isBuffer(source)) {
+    return range ? source.subarray(range.start, range.end + 1) : source;
+  }
+  return source.createReadStream(range);
+}
+
+/**
+ * Produce a `multipart/byteranges` body, reading one range at a time
+ */
+async function* streamMultipartBody(
+  source: Buffer | OpenedFile,
+  multipart: MultipartByteranges
+): AsyncGenerator<Buffer> {
+  for (const { header, range } of multipart.parts) {
+    yield header;
+    const body = readFileBody(source, range);
+    if (Buffer.isBuffer(body)) {
+      yield body;
+    } else {
+      yield* body;
+    }
+  }
+  yield multipart.trailer;
+}
+
+function isOpenedFile(file: FileMetadata | DownloadResult | OpenedFile): file is OpenedFile {
+  return 'createReadStream' in file;
+}
+
+/**
+ * Send a body held in memory or streamed from storage, after the headers were written
+ */
+async function sendBody(
+  context: IWebhookFunctions,
+  response: WebhookResponse,
+  body: Buffer | Readable
+): Promise<void> {
+  if (Buffer.isBuffer(body)) {
+    response.end(body);
+    return;
+  }
+  try {
+    await pipeline(body, response);
+  } catch (error) {
+    // The status is already sent, so a failed read can only cut the response short
+    context.logger.warn(`File stream ended early: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+function isMetadataRequest(query: IDataObject): boolean {
+  const meta = query.meta;
+  return meta === '1' || meta === 'true';
+}
+
+/**
+ * Describe a stored file without its contents
+ */
+function buildFileInfo(metadata: FileMetadata): IDataObject {
+  return {
+    contentType: metadata.contentType,
+    fileSize: metadata.fileSize,
+    uploadedAt: new Date(metadata.uploadedAt).toISOString(),
+    expiresAt: new Date(metadata.expiresAt).toISOString(),
+    remainingTtl: Math.max(0, Math.floor((metadata.expiresAt - Date.now()) / 1000)),
+    ...(metadata.fileName && { fileName: metadata.fileName }),
+    ...(metadata.lastAccessedAt && {
+      lastAccessedAt: new Date(metadata.lastAccessedAt).toISOString(),
+    }),
+    ...(metadata.maxDownloads !== undefined && {
+      maxDownloads: metadata.maxDownloads,
+      remainingDownloads: metadata.remainingDownloads,
+    }),
+    ...(metadata.slidingTtl && { slidingTtl: metadata.slidingTtl / 1000 }),
+    ...(metadata.accessSecrets && {
+      accessProtection: describeAccessProtection(metadata.accessSecrets),
+    }),
+    ...(metadata.accessRules && { accessRules: { ...metadata.accessRules } }),
+  };
+}
+
+/**
+ * Kinds of credentials a protected file accepts, without the hashes
+ */
+function describeAccessProtection(secrets: AccessSecret[]): string[] {
+  return secrets.map((secret) => secret.type);
+}
+
+/**
+ * Describe who requested a file and when
+ *
+ * Only returned by the node, never by the public `?meta=1` endpoint, since it contains client IPs.
+ */
+function buildAccessInfo(analytics: FileAnalytics | undefined): IDataObject {
+  return {
+    downloadCount: analytics?.downloadCount ?? 0,
+    accessCount: analytics?.accessCount ?? 0,
+    ...(analytics?.firstAccessAt && {
+      firstAccessAt: new Date(analytics.firstAccessAt).toISOString(),
+    }),
+    ...(analytics?.lastAccessAt && {
+      lastAccessAt: new Date(analytics.lastAccessAt).toISOString(),
+    }),
+    recentAccesses: (analytics?.recentAccesses ?? []).map((access) => ({
+      ...access,
+      timestamp: new Date(access.timestamp).toISOString(),
+    })),
+  };
+}
+
+/**
+ * Convert an optional size option in megabytes to bytes
+ */
+function megabytesOption(
+  context: IExecuteFunctions,
+  value: number | undefined,
+  label: string,
+  itemIndex: number
+): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== 'number' || !(value > 0)) {
+    throw new NodeOperationError(
+      context.getNode(),
+      `${label} must be a positive number of megabytes. Got: ${value}`,
+      { itemIndex }
+    );
+  }
+  return Math.floor(value * 1024 * 1024);
+}
+
+/**
+ * Read and validate the extra allowed/blocked MIME types from the upload options
+ */
+function getMimeTypePolicy(
+  context: IExecuteFunctions,
+  options: UploadNodeOptions,
+  itemIndex: number
+): MimeTypePolicy {
+  const policy: MimeTypePolicy = {
+    allow: parseMimeTypeList(options.allowedMimeTypes),
+    deny: parseMimeTypeList(options.blockedMimeTypes),
+  };
+
+  const invalid = [...policy.allow, ...policy.deny].find(
+    (pattern) => !isValidMimeTypePattern(pattern)
+  );
+  if (invalid) {
+    throw new NodeOperationError(
+      context.getNode(),
+      `Invalid MIME type pattern "${invalid}". Use "type/subtype" or "type/*"`,
+      { itemIndex }
+    );
+  }
+
+  return policy;
+}
+
+/**
+ * Resolve the storage driver configured on the node
+ *
+ * Falls back to memory storage for nodes saved before the driver option existed.
+ */
+function resolveStorageDriver(context: IExecuteFunctions | IWebhookFunctions): StorageDriver {
+  const driver = getNodeSetting(context, 'storageDriver', STORAGE.DRIVER_MEMORY as string);
+  const directory =
+    driver === STORAGE.DRIVER_FILESYSTEM
+      ? getNodeSetting(context, 'storageDirectory', '')
+      : undefined;
+  return getStorageDriver(driver, directory);
+}
+
+/**
+ * Read a node-level parameter from either an execute or a webhook context
+ */
+function getNodeSetting<T>(
+  context: IExecuteFunctions | IWebhookFunctions,
+  name: string,
+  fallback: T
+): T {
+  if ('getInputData' in context) {
+    return context.getNodeParameter(name, 0, fallback) as T;
+  }
+  return context.getNodeParameter(name, fallback) as T;
+}
+
+/**
+ * Generate webhook URL for file downloads
+ * @returns Base webhook URL (without query parameters)
+ */
+function generateWebhookUrl(
+  context: IExecuteFunctions,
+  workflowId: string
+): string {
+  const node = context.getNode();
+  const baseUrl = context.getInstanceBaseUrl();
+
+  // Get webhook path from n8n
+  const webhookPath = getNodeWebhookUrl('', workflowId, node, 'file', false);
+  if (!webhookPath) {
+    throw new NodeOperationError(
+      context.getNode(),
+      'Failed to generate webhook path. This is usually caused by:\n' +
+      '1. Workflow not saved - Make sure to save the workflow before executing\n' +
+      '2. n8n configuration issue - Check that n8n is properly configured\n' +
+      '3. Workflow ID is invalid - Try recreating the workflow node'
+    );
+  }
+
+  // Clean and build URL: remove extra slashes
+  const cleanBaseUrl = baseUrl.replace(/\/+$/, '');
+  const cleanPath = webhookPath.replace(/^\/+/, '');
+
+  const webhookUrl = `${cleanBaseUrl}/webhook/${cleanPath}`;
+
+  // Validate URL format
+  if (!webhookUrl.includes('/webhook/')) {
+    throw new NodeOperationError(
+      context.getNode(),
+      `Generated webhook URL has invalid format: ${webhookUrl}\n` +
+      `Expected format: ${cleanBaseUrl}/webhook/{path}/file\n` +
+      `Please check your n8n version and configuration.`
+    );
+  }
+
+  return webhookUrl;
+}
+
+/**
+ * Size of a binary in bytes, taken from its metadata so the contents are not loaded
+ */
+async function getBinaryFileSize(
+  context: IExecuteFunctions,
+  binaryData: IBinaryData
+): Promise<number> {
+  if (typeof binaryData.bytes === 'number') {
+    return binaryData.bytes;
+  }
+  // In filesystem and S3 binary data modes `data` only holds a reference
+  if (binaryData.id) {
+    return (await context.helpers.getBinaryMetadata(binaryData.id)).fileSize;
+  }
+  return Buffer.byteLength(binaryData.data, 'base64');
+}
+
+/**
+ * Read up to `length` leading bytes of a stream, then close it
+ */
+async function readStreamHead(stream: NodeJS.ReadableStream, length: number): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  // Leaving the loop early destroys the stream
+  for await (const chunk of stream) {
+    const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+    chunks.push(buffer);
+    size += buffer.length;
+    if (size >= length) break;
+  }
+  return Buffer.concat(chunks).subarray(0, length);
+}
+
+/**
+ * Upload parameters shared by every item of one execution
+ */
+interface UploadSettings {
+  workflowId: string;
+  webhookUrlBase: string;
+  /** Seconds */
+  ttl: number;
+  signingSecret?: string;
+  /** Seconds; only used when `signingSecret` is set */
+  linkExpiry: number;
+}
+
+/**
+ * Stored file and the URL it can be downloaded from
+ */
+interface StoredUpload {
+  fileKey: string;
+  proxyUrl: string;
+  linkExpiresAt?: string;
+}
+
+/**
+ * Binary handed to `StorageDriver.uploadStream()`, opened only once it is about to be stored
+ */
+interface StreamedUpload {
+  size: number;
+  open(): Promise<NodeJS.ReadableStream>;
+}
+
+async function handleUpload(
+  context: IExecuteFunctions,
+  storage: StorageDriver,
+  items: INodeExecutionData[]
+): Promise<INodeExecutionData[][]> {
+  // Validate input
+  if (!items || items.length === 0) {
+    throw new NodeOperationError(
+      context.getNode(),
+      'No input data provided'
+    );
+  }
+
+  const binaryPropertyName = context.getNodeParameter('binaryPropertyName', 0) as string;
+  const propertyPatterns = parseBinaryPropertyNames(binaryPropertyName);
+
+  if (propertyPatterns.length === 0) {
+    throw new NodeOperationError(
+      context.getNode(),
+      'Binary property name cannot be empty'
+    );
+  }
+
+  const settings = await getUploadSettings(context);
+
+  const uploadMode = context.getNodeParameter('uploadMode', 0, UPLOAD_MODES.PER_ITEM) as string;
+  if (uploadMode === UPLOAD_MODES.BUNDLE) {
+    return handleBundleUpload(context, storage, items, settings, propertyPatterns);
+  }
+
+  // A single plain name keeps the flat output; lists and wildcards output `urls` and `files`
+  const multipleProperties =
+    propertyPatterns.length > 1 || propertyPatterns[0].includes(BINARY_PROPERTY_WILDCARD);
+  const returnData: INodeExecutionData[] = [];
+
+  for (let itemIndex = 0; itemIndex < items.length; itemIndex++) {
+    // Options are read per item so they can be expressions (e.g. the file name)
+    const options = context.getNodeParameter('options', itemIndex, {}) as UploadNodeOptions;
+    const binaries = items[itemIndex].binary ?? {};
+    const { names, missing } = selectBinaryProperties(propertyPatterns, binaries);
+
+    if (missing.length > 0 && !options.skipMissingProperties) {
+      throw new NodeOperationError(
+        context.getNode(),
+        `No binary data found in property "${missing[0]}"`,
+        {
+          itemIndex,
+          description: 'Turn on Options → Skip Missing Binary Properties to upload what is there',
+        }
+      );
+    }
+
+    if (names.length === 0) {
+      returnData.push({ json: items[itemIndex].json, pairedItem: { item: itemIndex } });
+      continue;
+    }
+
+    if (!multipleProperties) {
+      const file = await uploadBinary(
+        context,
+        storage,
+        settings,
+        binaries[names[0]],
+        options,
+        options.fileName,
+        itemIndex
+      );
+      returnData.push({ json: file, pairedItem: { item: itemIndex } });
+      continue;
+    }
+
+    const urls: IDataObject = {};
+    const files: IDataObject = {};
+    for (const name of names) {
+      const file = await uploadBinary(
+        context,
+        storage,
+        settings,
+        binaries[name],
+        {
+          ...options,
+          ...(options.customFileKey?.trim() && {
+            customFileKey: `${options.customFileKey.trim()}-${name}`,
+          }),
+        },
+        undefined,
+        itemIndex
+      );
+      urls[name] = file.proxyUrl;
+      files[name] = file;
+    }
+    returnData.push({ json: { urls, files }, pairedItem: { item: itemIndex } });
+  }
+
+  return [returnData];
+}
+
+/**
+ * Store one binary property and describe the result for the node output
+ *
+ * `fileName` overrides the name of the binary data.
+ */
+async function uploadBinary(
+  context: IExecuteFunctions,
+  storage: StorageDriver,
+  settings: UploadSettings,
+  binaryData: IBinaryData,
+  options: UploadNodeOptions,
+  fileNameOverride: string | undefined,
+  itemIndex: number
+): Promise<IDataObject> {
+  let data: Buffer | StreamedUpload;
+  let contentType: string;
+  // Binaries n8n keeps outside the heap (filesystem or S3 mode) go straight to disk storage
+  if (binaryData.id && storage.uploadStream && !options.storeCompressed) {
+    ({ upload: data, contentType } = await openUploadStream(
+      context,
+      binaryData.id,
+      binaryData,
+      options,
+      itemIndex
+    ));
+  } else {
+    ({ buffer: data, contentType } = await readUploadFile(context, binaryData, options, itemIndex));
+  }
+
+  const fileSize = Buffer.isBuffer(data) ? data.length : data.size;
+  const fileName = sanitizeFileName(fileNameOverride || binaryData.fileName);
+  const uploadOptions = await buildUploadOptions(
+    context,
+    settings,
+    options,
+    fileSize,
+    fileName,
+    itemIndex
+  );
+
+  let storedData = data;
+  if (Buffer.isBuffer(data) && options.storeCompressed && isCompressibleMimeType(contentType)) {
+    const compressed = await encodeContent(data, 'gzip');
+    // Tiny or random-looking text can grow when compressed
+    if (compressed.length < data.length) {
+      storedData = compressed;
+      uploadOptions.contentEncoding = 'gzip';
+      uploadOptions.decodedSize = data.length;
+    }
+  }
+
+  const stored = await storeUpload(
+    context,
+    storage,
+    settings,
+    storedData,
+    contentType,
+    uploadOptions,
+    itemIndex
+  );
+
+  context.logger.info(
+    `File uploaded: ${stored.fileKey}, size: ${fileSize}, contentType: ${contentType}, ttl: ${settings.ttl}s`
+  );
+
+  return {
+    fileKey: stored.fileKey,
+    proxyUrl: stored.proxyUrl,
+    contentType,
+    fileSize,
+    ...(uploadOptions.contentEncoding &&
+      Buffer.isBuffer(storedData) && { storedSize: storedData.length }),
+    ...(fileName && { fileName }),
+    ...(stored.linkExpiresAt && { linkExpiresAt: stored.linkExpiresAt }),
+    ...(uploadOptions.maxDownloads && { maxDownloads: uploadOptions.maxDownloads }),
+    ...(uploadOptions.accessSecrets && {
+      accessProtection: describeAccessProtection(uploadOptions.accessSecrets),
+    }),
+    ...(uploadOptions.accessRules && { accessRules: { ...uploadOptions.accessRules } }),
+  };
+}
+
+/**
+ * Split the Binary Property parameter into names and `*` patterns
+ */
+function parseBinaryPropertyNames(value: string | undefined): string[] {
+  return [
+    ...new Set(
+      (value ?? '')
+        .split(',')
+        .map((name) => name.trim())
+        .filter((name) => name !== '')
+    ),
+  ];
+}
+
+/**
+ * Pick the binary properties of an item that match the parsed Binary Property parameter
+ *
+ * @returns matching property names in parameter order, and the names or patterns that matched nothing
+ */
+function selectBinaryProperties(
+  patterns: string[],
+  binaries: Record<string, IBinaryData>
+): { names: string[]; missing: string[] } {
+  const available = Object.keys(binaries);
+  const names = new Set<string>();
+  const missing: string[] = [];
+
+  for (const pattern of patterns) {
+    let matches: string[];
+    if (pattern.includes(BINARY_PROPERTY_WILDCARD)) {
+      const regex = new RegExp(
+        `^${pattern
+          .split(BINARY_PROPERTY_WILDCARD)
+          .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+          .join('.*')}$`
+      );
+      matches = available.filter((name) => regex.test(name));
+    } else {
+      matches = binaries[pattern] ? [pattern] : [];
+    }
+
+    if (matches.length === 0) {
+      missing.push(pattern);
+    }
+    matches.forEach((name) => names.add(name));
+  }
+
+  return { names: [...names], missing };
+}
+
+/**
+ * Zip the binaries of all items into one archive and store it under a single URL
+ *
+ * Each file is checked against the MIME type options of its own item; the archive itself
+ * uses the options of the first item.
+ */
+async function handleBundleUpload(
+  context: IExecuteFunctions,
+  storage: StorageDriver,
+  items: INodeExecutionData[],
+  settings: UploadSettings,
+  propertyPatterns: string[]
+): Promise<INodeExecutionData[][]> {
+  // The options of the first item apply to the archive
+  const bundleOptions = context.getNodeParameter('options', 0, {}) as UploadNodeOptions;
+  const maxBundleSize = Math.min(
+    megabytesOption(context, bundleOptions.maxFileSize, 'Max file size', 0) ??
+      CACHE_LIMITS.MAX_FILE_SIZE,
+    ZIP_MAX_SIZE
+  );
+  const workflowQuota =
+    megabytesOption(context, bundleOptions.workflowQuota, 'Workflow quota', 0) ??
+    CACHE_LIMITS.MAX_CACHE_SIZE;
+
+  const entries: ZipEntry[] = [];
+  const manifest: IDataObject[] = [];
+  const usedNames = new Set<string>();
+  let totalSize = 0;
+
+  for (let itemIndex = 0; itemIndex < items.length; itemIndex++) {
+    const binaries = items[itemIndex].binary ?? {};
+    const options = context.getNodeParameter('options', itemIndex, {}) as UploadNodeOptions;
+    const { names: propertyNames, missing } = selectBinaryProperties(propertyPatterns, binaries);
+
+    if (missing.length > 0 && !options.skipMissingProperties) {
+      throw new NodeOperationError(
+        context.getNode(),
+        `No binary data found in property "${missing[0]}"`,
+        {
+          itemIndex,
+          description: 'Turn on Options → Skip Missing Binary Properties to bundle what is there',
+        }
+      );
+    }
+
+    for (const propertyName of propertyNames) {
+      const binaryData = binaries[propertyName];
+      // Files count at their uncompressed size, so an oversized bundle fails before it is all loaded
+      const bundleSize = totalSize + (await getBinaryFileSize(context, binaryData));
+      if (bundleSize > maxBundleSize) {
+        recordRejectedUpload(settings.workflowId, 'file_size');
+        throw new NodeOperationError(
+          context.getNode(),
+          `Bundle size exceeds maximum limit of ${maxBundleSize / 1024 / 1024}MB`,
+          { itemIndex, description: 'Raise Max File Size in the options of the first item' }
+        );
+      }
+      if (bundleSize > workflowQuota) {
+        recordRejectedUpload(settings.workflowId, 'workflow_quota');
+        throw new NodeOperationError(
+          context.getNode(),
+          `Bundle size exceeds the workflow storage quota of ${workflowQuota} bytes`,
+          { itemIndex, description: 'Raise Workflow Quota in the options of the first item' }
+        );
+      }
+      if (entries.length === ZIP_MAX_ENTRIES) {
+        recordRejectedUpload(settings.workflowId, 'too_many_files');
+        throw new NodeOperationError(
+          context.getNode(),
+          `Too many files for one ZIP archive (more than ${ZIP_MAX_ENTRIES} files)`,
+          { itemIndex, description: `Bundles are limited to ${ZIP_MAX_ENTRIES} files and 4GB` }
+        );
+      }
+
+      const { buffer, contentType } = await readUploadFile(context, binaryData, options, itemIndex);
+
+      const name = uniqueEntryName(
+        sanitizeFileName(binaryData.fileName) ??
+          `${propertyName}-${itemIndex + 1}${binaryData.fileExtension ? `.${binaryData.fileExtension}` : ''}`,
+        usedNames
+      );
+
+      totalSize += buffer.length;
+      entries.push({ name, data: buffer, contentType });
+      manifest.push({
+        fileName: name,
+        fileSize: buffer.length,
+        contentType,
+        itemIndex,
+        binaryPropertyName: propertyName,
+      });
+    }
+  }
+
+  if (entries.length === 0) {
+    throw new NodeOperationError(context.getNode(), 'No binary data found in the input items');
+  }
+
+  if (!isMimeTypeAllowed(BUNDLE.CONTENT_TYPE, getMimeTypePolicy(context, bundleOptions, 0))) {
+    recordRejectedUpload(settings.workflowId, 'mime_type');
+    throw new NodeOperationError(
+      context.getNode(),
+      `MIME type "${BUNDLE.CONTENT_TYPE}" is not allowed`,
+      { description: 'Remove it from Options → Blocked MIME Types to upload bundles' }
+    );
+  }
+
+  const archive = await buildZipArchive(entries);
+  const fileName = sanitizeFileName(bundleOptions.fileName) ?? BUNDLE.DEFAULT_FILE_NAME;
+  const uploadOptions = await buildUploadOptions(
+    context,
+    settings,
+    bundleOptions,
+    archive.length,
+    fileName,
+    0
+  );
+  const stored = await storeUpload(
+    context,
+    storage,
+    settings,
+    archive,
+    BUNDLE.CONTENT_TYPE,
+    uploadOptions,
+    0
+  );
+
+  context.logger.info(
+    `Bundle uploaded: ${stored.fileKey}, files: ${entries.length}, size: ${archive.length}, ttl: ${settings.ttl}s`
+  );
+
+  return [
+    [
+      {
+        json: {
+          fileKey: stored.fileKey,
+          proxyUrl: stored.proxyUrl,
+          contentType: BUNDLE.CONTENT_TYPE,
+          fileSize: archive.length,
+          fileName,
+          fileCount: entries.length,
+          files: manifest,
+          ...(stored.linkExpiresAt && { linkExpiresAt: stored.linkExpiresAt }),
+          ...(uploadOptions.maxDownloads && { maxDownloads: uploadOptions.maxDownloads }),
+          ...(uploadOptions.accessSecrets && {
+            accessProtection: describeAccessProtection(uploadOptions.accessSecrets),
+          }),
+          ...(uploadOptions.accessRules && { accessRules: { ...uploadOptions.accessRules } }),
+        },
+        pairedItem: items.map((_, item) => ({ item })),
+      },
+    ],
+  ];
+}
+
+/**
+ * Make an archive entry name unique by appending " (2)", " (3)", ... before the extension
+ */
+function uniqueEntryName(name: string, usedNames: Set<string>): string {
+  const extensionStart = name.lastIndexOf('.');
+  const hasExtension = extensionStart > 0;
+  const base = hasExtension ? name.slice(0, extensionStart) : name;
+  const extension = hasExtension ? name.slice(extensionStart) : '';
+
+  let candidate = name;
+  for (let counter = 2; usedNames.has(candidate.toLowerCase()); counter++) {
+    candidate = `${base} (${counter})${extension}`;
+  }
+  // Compared case-insensitively so archives extract cleanly on Windows and macOS
+  usedNames.add(candidate.toLowerCase());
+  return candidate;
+}
+
+/**
+ * Validate the TTL and URL signing parameters
+ */
+async function getUploadSettings(context: IExecuteFunctions): Promise<UploadSettings> {
+  const ttl = getTtlParameter(context, 0);
+
+  const workflowId = getWorkflowId(context);
+
+  const webhookUrlBase = generateWebhookUrl(context, workflowId);
+
+  const signUrls = context.getNodeParameter('signUrls', 0, false) as boolean;
+  let signingSecret: string | undefined;
+  let linkExpiry = 0;
+
+  if (signUrls) {
+    const credentials = await context.getCredentials(URL_SIGNING.CREDENTIAL_NAME);
+    signingSecret = credentials.secret as string;
+    if (!signingSecret) {
+      throw new NodeOperationError(context.getNode(), 'Signing secret cannot be empty');
+    }
+
+    linkExpiry = context.getNodeParameter(
+      'linkExpiry',
+      0,
+      URL_SIGNING.DEFAULT_LINK_TTL
+    ) as number;
+    if (linkExpiry <= 0) {
+      throw new NodeOperationError(
+        context.getNode(),
+        `Link expiry must be a positive number of seconds. Got: ${linkExpiry}`
+      );
+    }
+  }
+
+  return { workflowId, webhookUrlBase, ttl, signingSecret, linkExpiry };
+}
+
+/**
+ * Read a binary property and check its size and MIME type against the upload options
+ *
+ * The size is checked before the contents are loaded, so oversized binaries stored outside
+ * the heap by n8n never reach memory.
+ */
+async function readUploadFile(
+  context: IExecuteFunctions,
+  binaryData: IBinaryData,
+  options: UploadNodeOptions,
+  itemIndex: number
+): Promise<{ buffer: Buffer; contentType: string }> {
+  const declaredSize = await getBinaryFileSize(context, binaryData);
+  assertFileSize(context, options, declaredSize, itemIndex);
+
+  const buffer = await context.helpers.getBinaryDataBuffer(itemIndex, binaryData);
+  const contentType = checkContentType(context, binaryData, buffer, options, itemIndex);
+
+  return { buffer, contentType };
+}
+
+/**
+ * Check a binary n8n stores outside the heap like `readUploadFile()`, reading only its first bytes
+ */
+async function openUploadStream(
+  context: IExecuteFunctions,
+  binaryDataId: string,
+  binaryData: IBinaryData,
+  options: UploadNodeOptions,
+  itemIndex: number
+): Promise<{ upload: StreamedUpload; contentType: string }> {
+  const size = await getBinaryFileSize(context, binaryData);
+  assertFileSize(context, options, size, itemIndex);
+
+  const head = await readStreamHead(
+    await context.helpers.getBinaryStream(binaryDataId, CONTENT_SNIFFING.SAMPLE_SIZE),
+    CONTENT_SNIFFING.SAMPLE_SIZE
+  );
+  const contentType = checkContentType(context, binaryData, head, options, itemIndex);
+
+  return {
+    upload: { size, open: async () => context.helpers.getBinaryStream(binaryDataId) },
+    contentType,
+  };
+}
+
+/**
+ * Resolve the content type from the declared MIME type and the leading bytes of the file,
+ * then check it against the MIME type options
+ */
+function checkContentType(
+  context: IExecuteFunctions,
+  binaryData: IBinaryData,
+  sample: Buffer,
+  options: UploadNodeOptions,
+  itemIndex: number
+): string {
+  const mimeTypePolicy = getMimeTypePolicy(context, options, itemIndex);
+
+  const sniffed = resolveContentType(
+    binaryData.mimeType,
+    sample,
+    options.contentSniffing ?? 'fillMissing'
+  );
+  if (sniffed.type === 'mismatch') {
+    recordRejectedUpload(getWorkflowId(context), 'content_mismatch');
+    throw new NodeOperationError(
+      context.getNode(),
+      `MIME type "${sniffed.declared}" does not match the file contents` +
+        (sniffed.detected ? ` (detected "${sniffed.detected}")` : ''),
+      { itemIndex }
+    );
+  }
+  const contentType = sniffed.contentType;
+
+  if (!isMimeTypeAllowed(contentType, mimeTypePolicy)) {
+    recordRejectedUpload(getWorkflowId(context), 'mime_type');
+    throw new NodeOperationError(
+      context.getNode(),
+      `MIME type "${contentType}" is not allowed`,
+      {
+        itemIndex,
+        description:
+          'Add it to Options → Additional Allowed MIME Types, or remove it from Blocked MIME Types',
+      }
+    );
+  }
+
+  return contentType;
+}
+
+/**
+ * Reject files larger than Options → Max File Size
+ */
+function assertFileSize(
+  context: IExecuteFunctions,
+  options: UploadNodeOptions,
+  fileSize: number,
+  itemIndex: number
+): void {
+  const maxFileSize =
+    megabytesOption(context, options.maxFileSize, 'Max file size', itemIndex) ??
+    CACHE_LIMITS.MAX_FILE_SIZE;
+
+  if (fileSize > maxFileSize) {
+    recordRejectedUpload(getWorkflowId(context), 'file_size');
+    throw new NodeOperationError(
+      context.getNode(),
+      `File size exceeds maximum limit of ${maxFileSize / 1024 / 1024}MB`,
+      { itemIndex }
+    );
+  }
+}
+
+/**
+ * Check the size and download limits and turn the node options into driver upload options
+ */
+async function buildUploadOptions(
+  context: IExecuteFunctions,
+  settings: UploadSettings,
+  options: UploadNodeOptions,
+  fileSize: number,
+  fileName: string | undefined,
+  itemIndex: number
+): Promise<UploadOptions> {
+  const workflowQuota = megabytesOption(
+    context,
+    options.workflowQuota,
+    'Workflow quota',
+    itemIndex
+  );
+
+  assertFileSize(context, options, fileSize, itemIndex);
+
+  const maxDownloads = options.maxDownloads ?? 0;
+  if (!Number.isInteger(maxDownloads) || maxDownloads < 0) {
+    throw new NodeOperationError(
+      context.getNode(),
+      `Max downloads must be a non-negative integer. Got: ${maxDownloads}`,
+      { itemIndex }
+    );
+  }
+
+  // Hashed per file, so every upload gets its own salt
+  const accessSecrets = [
+    ...(options.accessPassword ? [await hashAccessSecret('password', options.accessPassword)] : []),
+    ...(options.accessToken ? [await hashAccessSecret('token', options.accessToken)] : []),
+  ];
+
+  const accessRules = parseAccessRules(context, options, itemIndex);
+  const fileKey = parseCustomFileKey(context, options.customFileKey, itemIndex);
+
+  return {
+    ...(fileKey && { fileKey, keyConflict: options.keyConflict ?? 'fail' }),
+    ...(!fileKey && options.keyFormat && { keyFormat: options.keyFormat }),
+    ...(maxDownloads > 0 && { maxDownloads }),
+    ...(accessSecrets.length > 0 && { accessSecrets }),
+    ...(accessRules && { accessRules }),
+    ...(fileName && { fileName }),
+    ...(options.disposition &&
+      options.disposition !== 'auto' && { disposition: options.disposition }),
+    ...(workflowQuota !== undefined && { workflowQuota }),
+    ...(options.quotaPolicy && { quotaPolicy: options.quotaPolicy }),
+    ...(options.evictionStrategy && { evictionStrategy: options.evictionStrategy }),
+    ...(options.slidingExpiration && { slidingTtl: settings.ttl * 1000 }),
+  };
+}
+
+/**
+ * Validate the Custom File Key option
+ * @returns undefined when it is empty
+ */
+function parseCustomFileKey(
+  context: IExecuteFunctions,
+  value: string | undefined,
+  itemIndex: number
+): string | undefined {
+  const fileKey = (value ?? '').trim();
+  if (!fileKey) {
+    return undefined;
+  }
+  if (fileKey.length > FILE_KEY.MAX_CUSTOM_LENGTH || !isValidFileKey(fileKey)) {
+    throw new NodeOperationError(context.getNode(), `Invalid custom file key: "${fileKey}"`, {
+      itemIndex,
+      description: `Use up to ${FILE_KEY.MAX_CUSTOM_LENGTH} letters, digits, "-" or "_", starting with a letter or digit`,
+    });
+  }
+  return fileKey;
+}
+
+/**
+ * Validate the Allowed IP Ranges and Allowed Referrer Hosts options
+ * @returns undefined when neither is set
+ */
+function parseAccessRules(
+  context: IExecuteFunctions,
+  options: UploadNodeOptions,
+  itemIndex: number
+): AccessRules | undefined {
+  const parseList = (
+    value: string | undefined,
+    parse: (entry: string) => string | undefined,
+    label: string
+  ): string[] | undefined => {
+    const entries = (value ?? '').split(',').filter((entry) => entry.trim() !== '');
+    if (entries.length === 0) {
+      return undefined;
+    }
+    return entries.map((entry) => {
+      const parsed = parse(entry);
+      if (!parsed) {
+        throw new NodeOperationError(context.getNode(), `Invalid ${label}: "${entry.trim()}"`, {
+          itemIndex,
+        });
+      }
+      return parsed;
+    });
+  };
+
+  const ipRanges = parseList(options.allowedIpRanges, parseIpRange, 'IP range');
+  const referrerHosts = parseList(options.allowedReferrers, parseReferrerHost, 'referrer host');
+  if (!ipRanges && !referrerHosts) {
+    return undefined;
+  }
+  return { ...(ipRanges && { ipRanges }), ...(referrerHosts && { referrerHosts }) };
+}
+
+/**
+ * Store a file and build its download URL, signed when URL signing is on
+ */
+async function storeUpload(
+  context: IExecuteFunctions,
+  storage: StorageDriver,
+  settings: UploadSettings,
+  data: Buffer | StreamedUpload,
+  contentType: string,
+  uploadOptions: UploadOptions,
+  itemIndex: number
+): Promise<StoredUpload> {
+  const { workflowId, ttl, signingSecret, linkExpiry } = settings;
+
+  let result;
+  try {
+    if (Buffer.isBuffer(data)) {
+      result = await storage.upload(workflowId, data, contentType, ttl * 1000, uploadOptions);
+    } else {
+      // Streamed uploads are only prepared for drivers that implement uploadStream()
+      result = await storage.uploadStream!(
+        workflowId,
+        data.open,
+        data.size,
+        contentType,
+        ttl * 1000,
+        uploadOptions
+      );
+    }
+  } catch (error) {
+    if (error instanceof StorageQuotaError) {
+      recordRejectedUpload(workflowId, `${error.scope}_quota`);
+      throw new NodeOperationError(context.getNode(), error.message, {
+        itemIndex,
+        description:
+          'Delete files, lower their TTL, raise the quota, or set Options → When Quota Is Exceeded to evict older files',
+      });
+    }
+    if (error instanceof FileKeyConflictError) {
+      throw new NodeOperationError(context.getNode(), error.message, {
+        itemIndex,
+        description: 'Set Options → If File Key Exists to overwrite the file or add a suffix',
+      });
+    }
+    throw new NodeOperationError(context.getNode(), error as Error, { itemIndex });
+  }
+  let proxyUrl = `${settings.webhookUrlBase}?fileKey=${result.fileKey}`;
+  let linkExpiresAt: string | undefined;
+
+  if (signingSecret) {
+    // A signed link never outlives the stored file
+    const expires = Math.floor(Date.now() / 1000) + Math.min(linkExpiry, ttl);
+    const signed = signFileKey(signingSecret, workflowId, result.fileKey, expires);
+    proxyUrl += `&expires=${signed.expires}&signature=${signed.signature}`;
+    linkExpiresAt = new Date(signed.expires * 1000).toISOString();
+  }
+
+  return { fileKey: result.fileKey, proxyUrl, linkExpiresAt };
+}
+
+/**
+ * Read and validate the TTL (Seconds) parameter for an item
+ */
+function getTtlParameter(context: IExecuteFunctions, itemIndex: number): number {
+  const ttl = context.getNodeParameter('ttl', itemIndex) as number;
+
+  if (ttl < TTL.MIN) {
+    throw new NodeOperationError(
+      context.getNode(),
+      `TTL must be at least ${TTL.MIN} seconds. Got: ${ttl}`,
+      { itemIndex }
+    );
+  }
+  if (ttl > TTL.MAX) {
+    throw new NodeOperationError(
+      context.getNode(),
+      `TTL cannot exceed ${TTL.MAX} seconds. Got: ${ttl}`,
+      { itemIndex }
+    );
+  }
+
+  return ttl;
+}
+
+/**
+ * Get the current workflow ID, which scopes all stored files
+ */
+function getWorkflowId(context: IExecuteFunctions): string {
+  const workflowId = context.getWorkflow().id;
+
+  // Validate workflowId type
+  if (typeof workflowId !== 'string' || !workflowId) {
+    throw new NodeOperationError(
+      context.getNode(),
+      'Invalid workflow ID: expected a non-empty string'
+    );
+  }
+
+  return workflowId;
+}
+
+/**
+ * Read and validate the File Key parameter for an item
+ */
+function getFileKeyParameter(context: IExecuteFunctions, itemIndex: number): string {
+  const fileKey = (context.getNodeParameter('fileKey', itemIndex) as string).trim();
+
+  if (!isValidFileKey(fileKey)) {
+    throw new NodeOperationError(context.getNode(), `Invalid fileKey: "${fileKey}"`, {
+      itemIndex,
+    });
+  }
+
+  return fileKey;
+}
+
+async function handleDelete(
+  context: IExecuteFunctions,
+  storage: StorageDriver,
+  items: INodeExecutionData[]
+): Promise<INodeExecutionData[][]> {
+  const workflowId = getWorkflowId(context);
+  const returnData: INodeExecutionData[] = [];
+
+  for (let itemIndex = 0; itemIndex < items.length; itemIndex++) {
+    const fileKey = getFileKeyParameter(context, itemIndex);
+    const deleted = await storage.delete(workflowId, fileKey);
+    if (deleted) {
+      await deleteImageVariants(storage, workflowId, fileKey);
+    }
+
+    context.logger.info(`File ${deleted ? 'deleted' : 'not found'}: ${fileKey}`);
+
+    returnData.push({
+      json: { fileKey, deleted },
+      pairedItem: { item: itemIndex },
+    });
+  }
+
+  return [returnData];
+}
+
+/**
+ * Delete the stored resized copies of a file, which would otherwise live until its TTL
+ */
+async function deleteImageVariants(
+  storage: StorageDriver,
+  workflowId: string,
+  fileKey: string
+): Promise<void> {
+  const prefix = `${fileKey}${IMAGE_VARIANTS.KEY_SEPARATOR}`;
+  for (const file of await storage.list(workflowId)) {
+    if (file.fileKey.startsWith(prefix)) {
+      await storage.delete(workflowId, file.fileKey);
+    }
+  }
+}
+
+async function handleGetInfo(
+  context: IExecuteFunctions,
+  storage: StorageDriver,
+  items: INodeExecutionData[]
+): Promise<INodeExecutionData[][]> {
+  const workflowId = getWorkflowId(context);
+  const returnData: INodeExecutionData[] = [];
+
+  for (let itemIndex = 0; itemIndex < items.length; itemIndex++) {
+    const fileKey = getFileKeyParameter(context, itemIndex);
+    const metadata = await storage.getMetadata(workflowId, fileKey);
+
+    if (!metadata) {
+      throw new NodeOperationError(
+        context.getNode(),
+        `File not found or expired: ${fileKey}`,
+        { itemIndex }
+      );
+    }
+
+    returnData.push({
+      json: { fileKey, ...buildFileInfo(metadata), ...buildAccessInfo(metadata.analytics) },
+      pairedItem: { item: itemIndex },
+    });
+  }
+
+  return [returnData];
+}
+
+async function handleDownload(
+  context: IExecuteFunctions,
+  storage: StorageDriver,
+  items: INodeExecutionData[]
+): Promise<INodeExecutionData[][]> {
+  const workflowId = getWorkflowId(context);
+  const returnData: INodeExecutionData[] = [];
+
+  for (let itemIndex = 0; itemIndex < items.length; itemIndex++) {
+    const fileKey = getFileKeyParameter(context, itemIndex);
+    const binaryPropertyName = context.getNodeParameter('binaryPropertyName', itemIndex) as string;
+
+    if (!binaryPropertyName || binaryPropertyName.trim() === '') {
+      throw new NodeOperationError(
+        context.getNode(),
+        'Binary property name cannot be empty',
+        { itemIndex }
+      );
+    }
+
+    const result = await storage.download(workflowId, fileKey);
+
+    if (!result) {
+      throw new NodeOperationError(
+        context.getNode(),
+        `File not found or expired: ${fileKey}`,
+        { itemIndex }
+      );
+    }
+
+    const data = result.contentEncoding
+      ? await decodeContent(result.data, result.contentEncoding)
+      : result.data;
+    const binaryData = await context.helpers.prepareBinaryData(
+      data,
+      result.fileName,
+      result.contentType
+    );
+
+    returnData.push({
+      json: { ...items[itemIndex].json, fileKey, ...buildFileInfo(result) },
+      binary: { ...items[itemIndex].binary, [binaryPropertyName]: binaryData },
+      pairedItem: { item: itemIndex },
+    });
+  }
+
+  return [returnData];
+}
+
+async function handleUpdateExpiry(
+  context: IExecuteFunctions,
+  storage: StorageDriver,
+  items: INodeExecutionData[]
+): Promise<INodeExecutionData[][]> {
+  const workflowId = getWorkflowId(context);
+  const returnData: INodeExecutionData[] = [];
+
+  for (let itemIndex = 0; itemIndex < items.length; itemIndex++) {
+    const fileKey = getFileKeyParameter(context, itemIndex);
+    const ttl = getTtlParameter(context, itemIndex);
+    const metadata = await storage.updateExpiry(workflowId, fileKey, Date.now() + ttl * 1000);
+
+    if (!metadata) {
+      throw new NodeOperationError(
+        context.getNode(),
+        `File not found or expired: ${fileKey}`,
+        { itemIndex }
+      );
+    }
+
+    context.logger.info(`File expiry updated: ${fileKey}, ttl: ${ttl}s`);
+
+    returnData.push({
+      json: { fileKey, ...buildFileInfo(metadata) },
+      pairedItem: { item: itemIndex },
+    });
+  }
+
+  return [returnData];
+}
+
+async function handleList(
+  context: IExecuteFunctions,
+  storage: StorageDriver
+): Promise<INodeExecutionData[][]> {
+  const workflowId = getWorkflowId(context);
+  const files = (await storage.list(workflowId)).filter((file) => !isVariantKey(file.fileKey));
+
+  return [
+    files.map((file) => ({
+      json: { fileKey: file.fileKey, ...buildFileInfo(file) },
+    })),
+  ];
+}
+
+async function handleGetStats(
+  context: IExecuteFunctions,
+  storage: StorageDriver
+): Promise<INodeExecutionData[][]> {
+  const workflowId = getWorkflowId(context);
+  await storage.cleanupAllExpired();
+
+  return [[{ json: { ...storage.getStats(workflowId) } }]];
+}
+
+/**
+ * Keys become file names in the filesystem driver, so only a safe character set is accepted
+ */
 function isValidFileKey(fileKey: string): boolean {
   if (!fileKey || typeof fileKey !== 'string') {
     return false;
   }
-  const uuidPattern = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
-  return uuidPattern.test(fileKey);
+  return fileKey.length <= FILE_KEY.MAX_LENGTH && FILE_KEY.PATTERN.test(fileKey);
 }
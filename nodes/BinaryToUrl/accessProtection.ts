@@ -0,0 +1,134 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { ACCESS_PROTECTION } from '../../config/constants.js';
+import type { AccessSecret } from '../../drivers/StorageDriver.js';
+
+/**
+ * Credentials sent with a download request
+ */
+export interface PresentedCredential {
+  type: AccessSecret['type'];
+  secret: string;
+}
+
+function deriveKey(secret: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(secret, salt, ACCESS_PROTECTION.KEY_LENGTH, (error, key) =>
+      error ? reject(error) : resolve(key)
+    );
+  });
+}
+
+/**
+ * Hash a password or token with a fresh random salt
+ */
+export async function hashAccessSecret(
+  type: AccessSecret['type'],
+  secret: string
+): Promise<AccessSecret> {
+  const salt = randomBytes(ACCESS_PROTECTION.SALT_LENGTH);
+  const key = await deriveKey(secret, salt);
+  return { type, salt: salt.toString('hex'), hash: key.toString('hex') };
+}
+
+/**
+ * Check presented credentials against the secrets stored with a file, in constant time
+ */
+export async function verifyAccessSecret(
+  credential: PresentedCredential,
+  secrets: AccessSecret[]
+): Promise<boolean> {
+  for (const stored of secrets) {
+    if (stored.type !== credential.type) continue;
+
+    const expected = Buffer.from(stored.hash, 'hex');
+    const actual = await deriveKey(credential.secret, Buffer.from(stored.salt, 'hex'));
+    if (expected.length === actual.length && timingSafeEqual(expected, actual)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Read HTTP Basic auth (the user name is ignored) or a bearer token from an Authorization header
+ */
+export function parseAuthorization(authorization: string | undefined): PresentedCredential | undefined {
+  const match = /^(Basic|Bearer)\s+(\S+)\s*$/i.exec(authorization ?? '');
+  if (!match) {
+    return undefined;
+  }
+
+  if (match[1].toLowerCase() === 'bearer') {
+    return { type: 'token', secret: match[2] };
+  }
+
+  const decoded = Buffer.from(match[2], 'base64').toString('utf8');
+  const separator = decoded.indexOf(':');
+  return separator === -1 ? undefined : { type: 'password', secret: decoded.slice(separator + 1) };
+}
+
+/**
+ * WWW-Authenticate challenges for the kinds of credentials a file accepts
+ */
+export function buildAuthenticateChallenges(secrets: AccessSecret[]): string[] {
+  const challenges: string[] = [];
+  if (secrets.some((secret) => secret.type === 'password')) {
+    challenges.push(`Basic realm="${ACCESS_PROTECTION.REALM}", charset="UTF-8"`);
+  }
+  if (secrets.some((secret) => secret.type === 'token')) {
+    challenges.push(`Bearer realm="${ACCESS_PROTECTION.REALM}"`);
+  }
+  return challenges;
+}
+
+interface FailedAttempts {
+  count: number;
+  lastFailureAt: number;
+  lockedUntil?: number;
+}
+
+// Wrong credentials per `{workflowId}:{fileKey}`, forgotten after `LOCKOUT_DURATION`
+const failedAttempts = new Map<string, FailedAttempts>();
+
+function pruneFailedAttempts(now: number): void {
+  for (const [key, attempts] of failedAttempts) {
+    const releasedAt = Math.max(
+      attempts.lastFailureAt + ACCESS_PROTECTION.LOCKOUT_DURATION,
+      attempts.lockedUntil ?? 0
+    );
+    if (now >= releasedAt) {
+      failedAttempts.delete(key);
+    }
+  }
+}
+
+/**
+ * @returns when the file's lockout ends, or undefined if it is not locked
+ */
+export function getLockedUntil(key: string, now: number): number | undefined {
+  const lockedUntil = failedAttempts.get(key)?.lockedUntil;
+  return lockedUntil !== undefined && now < lockedUntil ? lockedUntil : undefined;
+}
+
+/**
+ * Count wrong credentials, locking the file after `MAX_FAILED_ATTEMPTS` in a row
+ * @returns when the lockout ends, if this attempt locked the file
+ */
+export function recordFailedAttempt(key: string, now: number): number | undefined {
+  pruneFailedAttempts(now);
+
+  const attempts = failedAttempts.get(key) ?? { count: 0, lastFailureAt: now };
+  attempts.count++;
+  attempts.lastFailureAt = now;
+  if (attempts.count >= ACCESS_PROTECTION.MAX_FAILED_ATTEMPTS) {
+    attempts.count = 0;
+    attempts.lockedUntil = now + ACCESS_PROTECTION.LOCKOUT_DURATION;
+  }
+  failedAttempts.set(key, attempts);
+
+  return getLockedUntil(key, now);
+}
+
+export function clearFailedAttempts(key: string): void {
+  failedAttempts.delete(key);
+}
@@ -0,0 +1,167 @@
+// eslint-disable-next-line @n8n/community-nodes/no-restricted-imports -- address parsing and matching only, no sockets are opened
+import { BlockList, isIP } from 'net';
+import type { AccessRules } from '../../drivers/StorageDriver.js';
+
+const IPV4_MAPPED_PREFIX = '::ffff:';
+
+/**
+ * Turn an IPv4-mapped IPv6 address (`::ffff:1.2.3.4`, as reported by dual-stack sockets) into IPv4
+ */
+function normalizeAddress(address: string): string {
+  const lower = address.trim().toLowerCase();
+  if (lower.startsWith(IPV4_MAPPED_PREFIX) && isIP(lower.slice(IPV4_MAPPED_PREFIX.length)) === 4) {
+    return lower.slice(IPV4_MAPPED_PREFIX.length);
+  }
+  return lower;
+}
+
+function addressFamily(address: string): 'ipv4' | 'ipv6' | undefined {
+  switch (isIP(address)) {
+    case 4:
+      return 'ipv4';
+    case 6:
+      return 'ipv6';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Parse one IP address or CIDR range (`10.0.0.0/8`, `2001:db8::/32`)
+ * @returns the normalized range, or undefined if it is not valid
+ */
+export function parseIpRange(entry: string): string | undefined {
+  const [rawAddress, rawPrefix, ...rest] = entry.trim().split('/');
+  const address = normalizeAddress(rawAddress);
+  const family = addressFamily(address);
+  if (!family || rest.length > 0) {
+    return undefined;
+  }
+  if (rawPrefix === undefined) {
+    return address;
+  }
+
+  const prefix = Number(rawPrefix);
+  const maxPrefix = family === 'ipv4' ? 32 : 128;
+  if (!/^\d+$/.test(rawPrefix) || prefix > maxPrefix) {
+    return undefined;
+  }
+  return `${address}/${prefix}`;
+}
+
+/**
+ * Whether an address falls within any of the given ranges (as returned by `parseIpRange()`)
+ */
+export function isIpInRanges(address: string | undefined, ranges: string[]): boolean {
+  if (!address) {
+    return false;
+  }
+  const normalized = normalizeAddress(address);
+  const family = addressFamily(normalized);
+  if (!family) {
+    return false;
+  }
+
+  const list = new BlockList();
+  for (const range of ranges) {
+    const [rangeAddress, prefix] = range.split('/');
+    const rangeFamily = addressFamily(rangeAddress);
+    if (!rangeFamily) continue;
+    if (prefix === undefined) {
+      list.addAddress(rangeAddress, rangeFamily);
+    } else {
+      list.addSubnet(rangeAddress, Number(prefix), rangeFamily);
+    }
+  }
+  return list.check(normalized, family);
+}
+
+/**
+ * Client address of a request
+ *
+ * `X-Forwarded-For` is only honoured when the connection comes from a trusted proxy. The
+ * header is then read right to left, skipping further trusted proxies, so a client cannot
+ * choose its address by sending the header itself.
+ */
+export function resolveClientIp(
+  remoteAddress: string | undefined,
+  forwardedFor: string | string[] | undefined,
+  trustedProxies: string[]
+): string | undefined {
+  let clientIp = remoteAddress ? normalizeAddress(remoteAddress) : undefined;
+  if (trustedProxies.length === 0 || !isIpInRanges(clientIp, trustedProxies)) {
+    return clientIp;
+  }
+
+  const hops = (Array.isArray(forwardedFor) ? forwardedFor.join(',') : (forwardedFor ?? ''))
+    .split(',')
+    .map((hop) => normalizeAddress(hop))
+    .filter((hop) => addressFamily(hop) !== undefined);
+
+  while (hops.length > 0 && isIpInRanges(clientIp, trustedProxies)) {
+    clientIp = hops.pop();
+  }
+  return clientIp;
+}
+
+/**
+ * Parse one allowed referrer host: `example.com`, or `*.example.com` for its subdomains
+ * @returns the lowercased host, or undefined if it is not valid
+ */
+export function parseReferrerHost(entry: string): string | undefined {
+  const host = entry.trim().toLowerCase();
+  return /^(\*\.)?[a-z0-9]([a-z0-9-]*[a-z0-9])?(\.[a-z0-9]([a-z0-9-]*[a-z0-9])?)*$/.test(host)
+    ? host
+    : undefined;
+}
+
+function hostMatches(hostname: string, allowed: string): boolean {
+  if (allowed.startsWith('*.')) {
+    return hostname.endsWith(allowed.slice(1));
+  }
+  return hostname === allowed;
+}
+
+/**
+ * Whether a request's `Origin` (or, without one, `Referer`) names an allowed host
+ *
+ * Requests sending neither header are refused, so links only work when embedded on or
+ * followed from an allowed site.
+ */
+export function isReferrerAllowed(
+  origin: string | undefined,
+  referer: string | undefined,
+  allowedHosts: string[]
+): boolean {
+  const source = origin && origin !== 'null' ? origin : referer;
+  if (!source) {
+    return false;
+  }
+
+  let hostname: string;
+  try {
+    hostname = new URL(source).hostname.toLowerCase();
+  } catch {
+    return false;
+  }
+  return allowedHosts.some((allowed) => hostMatches(hostname, allowed));
+}
+
+/**
+ * Check a request against a file's access rules
+ * @returns why the request is refused, or undefined if it is allowed
+ */
+export function checkAccessRules(
+  rules: AccessRules,
+  clientIp: string | undefined,
+  origin: string | undefined,
+  referer: string | undefined
+): string | undefined {
+  if (rules.ipRanges && !isIpInRanges(clientIp, rules.ipRanges)) {
+    return 'Client address not allowed';
+  }
+  if (rules.referrerHosts && !isReferrerAllowed(origin, referer, rules.referrerHosts)) {
+    return 'Referrer not allowed';
+  }
+  return undefined;
+}
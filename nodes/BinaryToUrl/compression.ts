@@ -0,0 +1,202 @@
+// eslint-disable-next-line @n8n/community-nodes/no-restricted-imports -- built-in module, needed for HTTP content encoding
+import * as zlib from 'zlib';
+import { COMPRESSION } from '../../config/constants.js';
+import type { ContentEncoding } from '../../drivers/StorageDriver.js';
+
+type ZlibCall = (data: Buffer, callback: (error: Error | null, result: Buffer) => void) => void;
+
+// Compressed responses by `{contentHash}:{encoding}`, least recently used first
+const encodedVariants = new Map<string, Buffer>();
+let encodedVariantsSize = 0;
+// Encodings in progress, so concurrent requests for the same file compress it once
+const pendingVariants = new Map<string, Promise<Buffer | null>>();
+
+/**
+ * Run a zlib operation on the thread pool instead of blocking the event loop
+ */
+function runZlib(call: ZlibCall, data: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    call(data, (error, result) => (error ? reject(error) : resolve(result)));
+  });
+}
+
+/**
+ * Whether a MIME type is worth compressing
+ *
+ * Text formats compress well; images, video, audio and archives are already compressed.
+ */
+export function isCompressibleMimeType(contentType: string): boolean {
+  const mimeType = contentType.split(';')[0].trim().toLowerCase();
+  return (
+    mimeType.startsWith('text/') ||
+    COMPRESSION.MIME_TYPES.includes(mimeType) ||
+    mimeType.endsWith('+json') ||
+    mimeType.endsWith('+xml')
+  );
+}
+
+/**
+ * Parse `Accept-Encoding` into quality values per coding (RFC 9110 section 12.5.3)
+ */
+function parseAcceptEncoding(header: string): Map<string, number> {
+  const qualities = new Map<string, number>();
+
+  for (const part of header.split(',')) {
+    const [coding, ...params] = part.trim().toLowerCase().split(';');
+    if (!coding) continue;
+
+    let quality = 1;
+    for (const param of params) {
+      const match = /^\s*q\s*=\s*([0-9.]+)\s*$/.exec(param);
+      if (match) {
+        quality = parseFloat(match[1]);
+      }
+    }
+    qualities.set(coding.trim(), Number.isFinite(quality) ? quality : 0);
+  }
+
+  return qualities;
+}
+
+function acceptsEncoding(qualities: Map<string, number>, coding: string): number {
+  return qualities.get(coding) ?? qualities.get('*') ?? 0;
+}
+
+/**
+ * Choose the content coding for a response
+ *
+ * Range requests always get the identity representation so byte offsets refer to the
+ * original file. A stored encoding the client accepts is sent as is; otherwise brotli is
+ * preferred over gzip. Small files are not worth compressing on the fly, and large ones
+ * would tie up the thread pool.
+ * @returns undefined for identity
+ */
+export function negotiateContentEncoding(
+  acceptEncoding: string | undefined,
+  contentType: string,
+  storedEncoding: ContentEncoding | undefined,
+  fileSize: number,
+  hasRange: boolean
+): ContentEncoding | undefined {
+  if (hasRange || !acceptEncoding) {
+    return undefined;
+  }
+  if (!storedEncoding && !isCompressibleMimeType(contentType)) {
+    return undefined;
+  }
+
+  const qualities = parseAcceptEncoding(acceptEncoding);
+
+  if (storedEncoding && acceptsEncoding(qualities, storedEncoding) > 0) {
+    return storedEncoding;
+  }
+  if (fileSize < COMPRESSION.MIN_SIZE || fileSize > COMPRESSION.MAX_SIZE) {
+    return undefined;
+  }
+
+  const brotli = acceptsEncoding(qualities, 'br');
+  const gzipQuality = acceptsEncoding(qualities, 'gzip');
+  if (brotli > 0 && brotli >= gzipQuality) {
+    return 'br';
+  }
+  return gzipQuality > 0 ? 'gzip' : undefined;
+}
+
+/**
+ * Whether responses for this file depend on `Accept-Encoding`, so caches need `Vary`
+ */
+export function variesByEncoding(
+  contentType: string,
+  storedEncoding: ContentEncoding | undefined
+): boolean {
+  return storedEncoding !== undefined || isCompressibleMimeType(contentType);
+}
+
+export async function encodeContent(data: Buffer, encoding: ContentEncoding): Promise<Buffer> {
+  return encoding === 'br'
+    ? runZlib(
+        (input, callback) =>
+          zlib.brotliCompress(
+            input,
+            { params: { [zlib.constants.BROTLI_PARAM_QUALITY]: COMPRESSION.BROTLI_QUALITY } },
+            callback
+          ),
+        data
+      )
+    : runZlib(
+        (input, callback) => zlib.gzip(input, { level: COMPRESSION.GZIP_LEVEL }, callback),
+        data
+      );
+}
+
+export async function decodeContent(data: Buffer, encoding: ContentEncoding): Promise<Buffer> {
+  return encoding === 'br'
+    ? runZlib((input, callback) => zlib.brotliDecompress(input, callback), data)
+    : runZlib((input, callback) => zlib.gunzip(input, callback), data);
+}
+
+/**
+ * Raw deflate stream, as used inside ZIP archives
+ */
+export async function deflateRawContent(data: Buffer): Promise<Buffer> {
+  return runZlib(
+    (input, callback) => zlib.deflateRaw(input, { level: COMPRESSION.GZIP_LEVEL }, callback),
+    data
+  );
+}
+
+/**
+ * Convert stored bytes from one content coding to another
+ */
+export async function transcodeContent(
+  data: Buffer,
+  from: ContentEncoding | undefined,
+  to: ContentEncoding | undefined
+): Promise<Buffer> {
+  if (from === to) {
+    return data;
+  }
+
+  const identity = from ? await decodeContent(data, from) : data;
+  return to ? encodeContent(identity, to) : identity;
+}
+
+/**
+ * Encode a file for a response, reusing an earlier result for the same contents and coding
+ *
+ * `encode` only runs on a miss. Results are kept up to `COMPRESSION.CACHE_MAX_SIZE` bytes in
+ * total, dropping the least recently used first.
+ */
+export async function getEncodedVariant(
+  contentHash: string,
+  encoding: ContentEncoding,
+  encode: () => Promise<Buffer | null>
+): Promise<Buffer | null> {
+  const key = `${contentHash}:${encoding}`;
+  const cached = encodedVariants.get(key);
+  if (cached) {
+    // Re-insert to mark it as most recently used
+    encodedVariants.delete(key);
+    encodedVariants.set(key, cached);
+    return cached;
+  }
+
+  let pending = pendingVariants.get(key);
+  if (!pending) {
+    pending = encode().finally(() => pendingVariants.delete(key));
+    pendingVariants.set(key, pending);
+  }
+  const encoded = await pending;
+  if (encoded && !encodedVariants.has(key) && encoded.length <= COMPRESSION.CACHE_MAX_SIZE) {
+    encodedVariants.set(key, encoded);
+    encodedVariantsSize += encoded.length;
+    for (const [oldestKey, oldest] of encodedVariants) {
+      if (encodedVariantsSize <= COMPRESSION.CACHE_MAX_SIZE) {
+        break;
+      }
+      encodedVariants.delete(oldestKey);
+      encodedVariantsSize -= oldest.length;
+    }
+  }
+  return encoded;
+}
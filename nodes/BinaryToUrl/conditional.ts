@@ -0,0 +1,110 @@
+import { HTTP_HEADERS } from '../../config/constants.js';
+import type { ContentEncoding } from '../../drivers/StorageDriver.js';
+
+/**
+ * Validators describing the current representation of a stored file
+ */
+export interface FileValidators {
+  etag: string;
+  lastModified: number;
+}
+
+/**
+ * Format a content hash as a strong entity tag
+ */
+export function formatETag(contentHash: string): string {
+  return `"${contentHash}"`;
+}
+
+/**
+ * Entity tag of the representation sent with a given content coding
+ *
+ * The stored representation is tagged with the content hash itself; every other coding gets a
+ * suffix, since strong validators must differ between encodings.
+ */
+export function formatRepresentationETag(
+  contentHash: string,
+  storedEncoding: ContentEncoding | undefined,
+  servedEncoding: ContentEncoding | undefined
+): string {
+  return servedEncoding === storedEncoding
+    ? formatETag(contentHash)
+    : formatETag(`${contentHash}-${servedEncoding ?? 'identity'}`);
+}
+
+/**
+ * Build a Cache-Control value that never lets a cache outlive the file
+ * @param expiresAt - Time after which the URL stops working (ms since epoch)
+ */
+export function buildCacheControl(expiresAt: number): string {
+  const maxAge = Math.max(0, Math.floor((expiresAt - Date.now()) / 1000));
+  return `${HTTP_HEADERS.CACHE_CONTROL}, max-age=${maxAge}`;
+}
+
+function stripWeakPrefix(tag: string): string {
+  return tag.startsWith('W/') ? tag.slice(2) : tag;
+}
+
+/**
+ * Evaluate `If-None-Match` / `If-Modified-Since` (RFC 7232)
+ *
+ * `If-None-Match` takes precedence; `If-Modified-Since` is only considered when it is absent.
+ * @returns true if a 304 Not Modified should be sent
+ */
+export function isNotModified(
+  ifNoneMatch: string | undefined,
+  ifModifiedSince: string | undefined,
+  validators: FileValidators
+): boolean {
+  if (ifNoneMatch) {
+    const value = ifNoneMatch.trim();
+    if (value === '*') {
+      return true;
+    }
+    // Weak comparison: W/"x" matches "x"
+    const current = stripWeakPrefix(validators.etag);
+    return value.split(',').some((tag) => stripWeakPrefix(tag.trim()) === current);
+  }
+
+  if (ifModifiedSince) {
+    const date = Date.parse(ifModifiedSince);
+    if (isNaN(date)) {
+      return false;
+    }
+    // HTTP dates have one-second resolution
+    return Math.floor(validators.lastModified / 1000) <= Math.floor(date / 1000);
+  }
+
+  return false;
+}
+
+/**
+ * Evaluate an `If-Range` header (RFC 7233)
+ *
+ * Entity tags use strong comparison, so weak tags never match.
+ * @returns true if the Range header should be honoured, false if the full file must be sent
+ */
+export function isIfRangeSatisfied(
+  ifRange: string | undefined,
+  validators: FileValidators
+): boolean {
+  if (!ifRange) {
+    return true;
+  }
+
+  const value = ifRange.trim();
+
+  if (value.startsWith('W/')) {
+    return false;
+  }
+  if (value.startsWith('"')) {
+    return value === validators.etag;
+  }
+
+  const date = Date.parse(value);
+  if (isNaN(date)) {
+    return false;
+  }
+
+  return Math.floor(date / 1000) === Math.floor(validators.lastModified / 1000);
+}
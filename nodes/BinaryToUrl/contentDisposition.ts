@@ -0,0 +1,61 @@
+import { DOWNLOAD_MIME_TYPES, HTTP_HEADERS } from '../../config/constants.js';
+
+export type DispositionMode = 'auto' | 'inline' | 'attachment';
+
+/**
+ * Reduce a user-supplied file name to a safe base name
+ *
+ * Strips directory components and control characters so the name can't smuggle header
+ * syntax or paths into the response.
+ */
+export function sanitizeFileName(fileName: string | undefined): string | undefined {
+  if (!fileName) {
+    return undefined;
+  }
+
+  const baseName = fileName.split(/[\\/]/).pop() ?? '';
+  // eslint-disable-next-line no-control-regex
+  const cleaned = baseName.replace(/[\x00-\x1f\x7f]/g, '').trim();
+
+  return cleaned === '' || cleaned === '.' || cleaned === '..' ? undefined : cleaned;
+}
+
+/**
+ * Percent-encode a value for an RFC 5987 `ext-value`
+ */
+function encodeRfc5987(value: string): string {
+  return encodeURIComponent(value).replace(
+    /['()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+}
+
+/**
+ * Build a `Content-Disposition` header value (RFC 6266)
+ *
+ * `auto` picks `attachment` for `DOWNLOAD_MIME_TYPES` and `inline` otherwise. Non-ASCII names
+ * get an ASCII `filename` fallback plus a UTF-8 `filename*` parameter.
+ */
+export function buildContentDisposition(
+  mode: DispositionMode | undefined,
+  contentType: string,
+  fileName: string | undefined
+): string {
+  const type =
+    mode === 'inline' || mode === 'attachment'
+      ? mode
+      : DOWNLOAD_MIME_TYPES.includes(contentType)
+        ? HTTP_HEADERS.DISPOSITION_ATTACHMENT
+        : HTTP_HEADERS.DISPOSITION_INLINE;
+
+  if (!fileName) {
+    return type;
+  }
+
+  const asciiFallback = fileName.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '_');
+  if (asciiFallback === fileName) {
+    return `${type}; filename="${fileName}"`;
+  }
+
+  return `${type}; filename="${asciiFallback}"; filename*=UTF-8''${encodeRfc5987(fileName)}`;
+}
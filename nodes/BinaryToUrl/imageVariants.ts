@@ -0,0 +1,250 @@
+import { createHash } from 'crypto';
+import type { IDataObject } from 'n8n-workflow';
+import { IMAGE_VARIANTS } from '../../config/constants.js';
+
+export type ImageFit = 'cover' | 'contain' | 'fill' | 'inside' | 'outside';
+export type ImageFormat = 'jpeg' | 'png' | 'webp' | 'avif';
+
+/**
+ * Size and format asked for by the `w`, `h`, `fit` and `format` query parameters
+ */
+export interface ImageVariantRequest {
+  width?: number;
+  height?: number;
+  fit: ImageFit;
+  format?: ImageFormat;
+}
+
+export type ImageVariantQuery =
+  | { type: 'none' }
+  | { type: 'invalid'; error: string }
+  | { type: 'variant'; request: ImageVariantRequest };
+
+/**
+ * Resized or converted image, ready to send
+ */
+export interface RenderedImage {
+  data: Buffer;
+  contentType: string;
+  /** SHA-256 of `data` (hex), used as the ETag */
+  contentHash: string;
+}
+
+/**
+ * Outcome of rendering a variant: `unavailable` when the image library is not installed,
+ * `unprocessable` when the original cannot be decoded within the limits
+ */
+export type ImageVariantResult =
+  | { type: 'rendered'; image: RenderedImage }
+  | { type: 'unavailable' | 'unprocessable'; error: string };
+
+/**
+ * The parts of the image library's API used here
+ */
+interface ImagePipeline {
+  rotate(): ImagePipeline;
+  resize(options: {
+    width?: number;
+    height?: number;
+    fit: ImageFit;
+    withoutEnlargement: boolean;
+  }): ImagePipeline;
+  toFormat(format: string): ImagePipeline;
+  toBuffer(): Promise<Buffer>;
+}
+
+type ImageLibrary = (
+  input: Buffer,
+  options: { limitInputPixels: number; animated: boolean }
+) => ImagePipeline;
+
+let imageLibrary: Promise<ImageLibrary | undefined> | undefined;
+
+// Variants being rendered, so concurrent requests for the same one render it once
+const pendingRenders = new Map<string, Promise<ImageVariantResult | null>>();
+
+function normalizeMimeType(contentType: string): string {
+  return contentType.split(';')[0].trim().toLowerCase();
+}
+
+/**
+ * Whether a file type can be resized; other files ignore the variant parameters
+ */
+export function isResizableImage(contentType: string): boolean {
+  return normalizeMimeType(contentType) in IMAGE_VARIANTS.INPUT_FORMATS;
+}
+
+function parseDimension(value: unknown, name: string): number | string | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  const dimension = typeof value === 'string' && /^\d+$/.test(value) ? Number(value) : NaN;
+  if (!(dimension >= 1 && dimension <= IMAGE_VARIANTS.MAX_DIMENSION)) {
+    return `"${name}" must be a whole number from 1 to ${IMAGE_VARIANTS.MAX_DIMENSION}`;
+  }
+  return dimension;
+}
+
+/**
+ * Read the variant parameters of a download request
+ *
+ * Requests without any of them are `none`, so the original is sent.
+ */
+export function parseImageVariantQuery(query: IDataObject): ImageVariantQuery {
+  const { w, h, fit, format } = query;
+  if ([w, h, fit, format].every((value) => value === undefined)) {
+    return { type: 'none' };
+  }
+
+  const width = parseDimension(w, 'w');
+  const height = parseDimension(h, 'h');
+  for (const dimension of [width, height]) {
+    if (typeof dimension === 'string') {
+      return { type: 'invalid', error: dimension };
+    }
+  }
+
+  if (fit !== undefined && (typeof fit !== 'string' || !IMAGE_VARIANTS.FITS.includes(fit))) {
+    return { type: 'invalid', error: `"fit" must be one of ${IMAGE_VARIANTS.FITS.join(', ')}` };
+  }
+  if (fit !== undefined && width === undefined && height === undefined) {
+    return { type: 'invalid', error: '"fit" needs "w" or "h"' };
+  }
+  if (
+    format !== undefined &&
+    (typeof format !== 'string' || !(format in IMAGE_VARIANTS.OUTPUT_FORMATS))
+  ) {
+    return {
+      type: 'invalid',
+      error: `"format" must be one of ${Object.keys(IMAGE_VARIANTS.OUTPUT_FORMATS).join(', ')}`,
+    };
+  }
+
+  return {
+    type: 'variant',
+    request: {
+      width: width as number | undefined,
+      height: height as number | undefined,
+      fit: (fit ?? IMAGE_VARIANTS.DEFAULT_FIT) as ImageFit,
+      format: format as ImageFormat | undefined,
+    },
+  };
+}
+
+/**
+ * Storage key of a variant: the original's key plus an id derived from its contents and the
+ * request, so an overwritten original never serves stale variants
+ */
+export function getVariantKey(
+  fileKey: string,
+  contentHash: string,
+  request: ImageVariantRequest
+): string {
+  const id = createHash('sha256')
+    .update([contentHash, request.width, request.height, request.fit, request.format].join(':'))
+    .digest('hex')
+    .slice(0, 16);
+  return `${fileKey}${IMAGE_VARIANTS.KEY_SEPARATOR}${id}`;
+}
+
+/**
+ * Whether a stored file is a variant of another file rather than an upload
+ */
+export function isVariantKey(fileKey: string): boolean {
+  return fileKey.includes(IMAGE_VARIANTS.KEY_SEPARATOR);
+}
+
+/**
+ * Load the optional image library once
+ * @returns undefined when it is not installed
+ */
+function loadImageLibrary(): Promise<ImageLibrary | undefined> {
+  // A plain string keeps the compiler from resolving a package that is not a dependency
+  const libraryName: string = IMAGE_VARIANTS.LIBRARY;
+  imageLibrary ??= import(libraryName).then(
+    (module: { default?: ImageLibrary }) => module.default ?? (module as unknown as ImageLibrary),
+    () => undefined
+  );
+  return imageLibrary;
+}
+
+/**
+ * Resize and convert an image with the optional image library
+ *
+ * The image is turned upright from its EXIF orientation and never enlarged. Without `format`
+ * the original format is kept.
+ */
+export async function renderImageVariant(
+  data: Buffer,
+  contentType: string,
+  request: ImageVariantRequest
+): Promise<ImageVariantResult> {
+  const library = await loadImageLibrary();
+  if (!library) {
+    return {
+      type: 'unavailable',
+      error: `Image resizing needs the optional "${IMAGE_VARIANTS.LIBRARY}" package, which is not installed`,
+    };
+  }
+
+  const mimeType = normalizeMimeType(contentType);
+  const format = request.format ?? IMAGE_VARIANTS.INPUT_FORMATS[mimeType];
+  try {
+    let image = library(data, {
+      limitInputPixels: IMAGE_VARIANTS.MAX_INPUT_PIXELS,
+      animated: false,
+    }).rotate();
+    if (request.width !== undefined || request.height !== undefined) {
+      image = image.resize({
+        width: request.width,
+        height: request.height,
+        fit: request.fit,
+        withoutEnlargement: true,
+      });
+    }
+    const rendered = await image.toFormat(format).toBuffer();
+
+    return {
+      type: 'rendered',
+      image: {
+        data: rendered,
+        contentType: request.format ? IMAGE_VARIANTS.OUTPUT_FORMATS[request.format] : mimeType,
+        contentHash: createHash('sha256').update(rendered).digest('hex'),
+      },
+    };
+  } catch (error) {
+    return {
+      type: 'unprocessable',
+      error: `Image could not be resized: ${error instanceof Error ? error.message : error}`,
+    };
+  }
+}
+
+/**
+ * Run `render` for a variant unless the same variant is already being rendered
+ */
+export function renderOnce(
+  key: string,
+  render: () => Promise<ImageVariantResult | null>
+): Promise<ImageVariantResult | null> {
+  let pending = pendingRenders.get(key);
+  if (!pending) {
+    pending = render().finally(() => pendingRenders.delete(key));
+    pendingRenders.set(key, pending);
+  }
+  return pending;
+}
+
+/**
+ * File name for a variant, with the extension of its new format
+ */
+export function getVariantFileName(
+  fileName: string | undefined,
+  request: ImageVariantRequest
+): string | undefined {
+  if (!fileName || !request.format) {
+    return fileName;
+  }
+  const extension = request.format === 'jpeg' ? 'jpg' : request.format;
+  return `${fileName.replace(/\.[^.]*$/, '')}.${extension}`;
+}
@@ -0,0 +1,167 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { METRICS } from '../../config/constants.js';
+import type { StorageCounters, StorageUsage } from '../../drivers/StorageDriver.js';
+
+/**
+ * Why an upload was refused, used as the `cause` label
+ */
+export type RejectionCause =
+  | 'mime_type'
+  | 'content_mismatch'
+  | 'file_size'
+  | 'too_many_files'
+  | 'workflow_quota'
+  | 'global_quota';
+
+// Most uploads are refused before they reach a driver, so the node counts rejections itself
+const rejectedUploads = new Map<string, Map<RejectionCause, number>>();
+
+export function recordRejectedUpload(workflowId: string, cause: RejectionCause): void {
+  let causes = rejectedUploads.get(workflowId);
+  if (!causes) {
+    causes = new Map();
+    rejectedUploads.set(workflowId, causes);
+  }
+  causes.set(cause, (causes.get(cause) ?? 0) + 1);
+}
+
+/**
+ * Check an `Authorization: Bearer <token>` header in constant time
+ */
+export function isBearerTokenValid(authorization: string | undefined, token: string): boolean {
+  const match = /^Bearer\s+(\S+)\s*$/i.exec(authorization ?? '');
+  if (!match) {
+    return false;
+  }
+
+  // Hashing first makes both sides the same length, as timingSafeEqual requires
+  const expected = createHash('sha256').update(token).digest();
+  const actual = createHash('sha256').update(match[1]).digest();
+  return timingSafeEqual(expected, actual);
+}
+
+interface Sample {
+  labels?: Record<string, string>;
+  value: number;
+}
+
+interface MetricFamily {
+  name: string;
+  help: string;
+  type: 'gauge' | 'counter';
+  samples: Sample[];
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function renderFamily(family: MetricFamily): string {
+  const name = `${METRICS.PREFIX}_${family.name}`;
+  const lines = [`# HELP ${name} ${family.help}`, `# TYPE ${name} ${family.type}`];
+
+  for (const sample of family.samples) {
+    const labels = Object.entries(sample.labels ?? {})
+      .map(([key, value]) => `${key}="${escapeLabelValue(value)}"`)
+      .join(',');
+    lines.push(`${name}${labels ? `{${labels}}` : ''} ${sample.value}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Render storage usage and rejected uploads in the Prometheus text exposition format
+ */
+export function renderPrometheusMetrics(usage: StorageUsage): string {
+  const { workflows } = usage;
+  const perWorkflow = (
+    value: (counters: StorageCounters) => number,
+    extraLabels: Record<string, string> = {}
+  ): Sample[] =>
+    workflows.map((workflow) => ({
+      labels: { workflow_id: workflow.workflowId, ...extraLabels },
+      value: value(workflow.counters),
+    }));
+
+  const rejected: Sample[] = [];
+  for (const [workflowId, causes] of rejectedUploads) {
+    for (const [cause, value] of causes) {
+      rejected.push({ labels: { workflow_id: workflowId, cause }, value });
+    }
+  }
+
+  const families: MetricFamily[] = [
+    {
+      name: 'global_stored_bytes',
+      help: 'Bytes stored across all workflows',
+      type: 'gauge',
+      samples: [{ value: usage.totalCacheSize }],
+    },
+    {
+      name: 'global_max_bytes',
+      help: 'Global storage limit; uploads beyond it evict files or fail',
+      type: 'gauge',
+      samples: [{ value: usage.maxCacheSize }],
+    },
+    {
+      name: 'global_files',
+      help: 'Files stored across all workflows',
+      type: 'gauge',
+      samples: [{ value: usage.totalFiles }],
+    },
+    {
+      name: 'stored_bytes',
+      help: 'Bytes stored per workflow',
+      type: 'gauge',
+      samples: workflows.map((workflow) => ({
+        labels: { workflow_id: workflow.workflowId },
+        value: workflow.cacheSize,
+      })),
+    },
+    {
+      name: 'files',
+      help: 'Files stored per workflow',
+      type: 'gauge',
+      samples: workflows.map((workflow) => ({
+        labels: { workflow_id: workflow.workflowId },
+        value: workflow.fileCount,
+      })),
+    },
+    {
+      name: 'uploads_total',
+      help: 'Files stored',
+      type: 'counter',
+      samples: perWorkflow((counters) => counters.uploads),
+    },
+    {
+      name: 'downloads_total',
+      help: 'GET requests that delivered a file',
+      type: 'counter',
+      samples: perWorkflow((counters) => counters.downloads),
+    },
+    {
+      name: 'not_found_total',
+      help: 'Requests for unknown, expired or used-up file keys (404 and 410)',
+      type: 'counter',
+      samples: perWorkflow((counters) => counters.notFound),
+    },
+    {
+      name: 'evictions_total',
+      help: 'Files deleted by the storage driver, by reason',
+      type: 'counter',
+      samples: [
+        ...perWorkflow((counters) => counters.expiredEvictions, { reason: 'expired' }),
+        ...perWorkflow((counters) => counters.quotaEvictions, { reason: 'quota' }),
+      ],
+    },
+    {
+      name: 'rejected_uploads_total',
+      help: 'Uploads refused, by cause',
+      type: 'counter',
+      samples: rejected,
+    },
+  ];
+
+  return families.map(renderFamily).join('\n') + '\n';
+}
@@ -0,0 +1,79 @@
+import { ALLOWED_MIME_TYPES, PASSIVE_MIME_TYPES } from '../../config/constants.js';
+
+/**
+ * Extra allowed and blocked MIME type patterns configured on the node
+ *
+ * Patterns are exact types (`text/calendar`), type wildcards (`image/*`) or `*` / `*\/*`.
+ */
+export interface MimeTypePolicy {
+  allow: string[];
+  deny: string[];
+}
+
+/**
+ * Split a comma or newline separated list of MIME type patterns
+ */
+export function parseMimeTypeList(value: string | undefined): string[] {
+  if (!value) {
+    return [];
+  }
+
+  return value
+    .split(/[\s,]+/)
+    .map((pattern) => pattern.trim().toLowerCase())
+    .filter((pattern) => pattern !== '');
+}
+
+/**
+ * Check a pattern for the `type/subtype` shape, with `*` allowed as the whole subtype
+ */
+export function isValidMimeTypePattern(pattern: string): boolean {
+  return pattern === '*' || /^(\*\/\*|[a-z0-9!#$&^_.+-]+\/(\*|[a-z0-9!#$&^_.+-]+))$/.test(pattern);
+}
+
+/**
+ * Strip parameters (`; charset=...`) and normalize case
+ */
+function normalizeMimeType(contentType: string): string {
+  return contentType.split(';')[0].trim().toLowerCase();
+}
+
+function matchesPattern(mimeType: string, pattern: string): boolean {
+  if (pattern === '*' || pattern === '*/*') {
+    return true;
+  }
+  if (pattern.endsWith('/*')) {
+    return mimeType.startsWith(pattern.slice(0, -1));
+  }
+  return mimeType === pattern;
+}
+
+/**
+ * Decide whether an upload's MIME type is accepted
+ *
+ * The blocklist always wins. Otherwise a type passes if it is in `ALLOWED_MIME_TYPES` or
+ * matches one of the extra allowed patterns.
+ */
+export function isMimeTypeAllowed(contentType: string, policy: MimeTypePolicy): boolean {
+  const mimeType = normalizeMimeType(contentType);
+
+  if (policy.deny.some((pattern) => matchesPattern(mimeType, pattern))) {
+    return false;
+  }
+
+  return (
+    ALLOWED_MIME_TYPES.includes(mimeType) ||
+    policy.allow.some((pattern) => matchesPattern(mimeType, pattern))
+  );
+}
+
+/**
+ * Decide whether a file type can be rendered without running scripts
+ *
+ * Images, audio, video and PDF are displayed by the browser's own viewers, which a sandboxing
+ * Content-Security-Policy would break. Markup such as HTML, SVG or XML is not passive.
+ */
+export function isPassiveMimeType(contentType: string): boolean {
+  const mimeType = normalizeMimeType(contentType);
+  return PASSIVE_MIME_TYPES.some((pattern) => matchesPattern(mimeType, pattern));
+}
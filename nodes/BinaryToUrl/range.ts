@@ -0,0 +1,159 @@
+import { randomBytes } from 'crypto';
+import { RANGE_REQUESTS } from '../../config/constants.js';
+
+/**
+ * Inclusive byte range within a file
+ */
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+export type RangeParseResult =
+  | { type: 'none' }
+  | { type: 'unsatisfiable' }
+  | { type: 'ranges'; ranges: ByteRange[] };
+
+/**
+ * Parse an HTTP `Range` header (RFC 7233) against a file of the given size
+ *
+ * Syntactically invalid headers, non-byte units, requests with too many ranges and ranges
+ * that together ask for more bytes than the file has are ignored (`none`), which means the
+ * full file is served with a 200. Overlapping and adjacent ranges are merged, in file order.
+ */
+export function parseRangeHeader(header: string | undefined, size: number): RangeParseResult {
+  if (!header) {
+    return { type: 'none' };
+  }
+
+  const match = /^\s*bytes\s*=\s*(.+)$/i.exec(header);
+  if (!match) {
+    return { type: 'none' };
+  }
+
+  const specs = match[1].split(',').map((spec) => spec.trim());
+  if (specs.length > RANGE_REQUESTS.MAX_RANGES) {
+    return { type: 'none' };
+  }
+
+  const ranges: ByteRange[] = [];
+
+  for (const spec of specs) {
+    const specMatch = /^(\d*)-(\d*)$/.exec(spec);
+    if (!specMatch || (specMatch[1] === '' && specMatch[2] === '')) {
+      return { type: 'none' };
+    }
+
+    if (specMatch[1] === '') {
+      // Suffix range: last N bytes
+      const suffixLength = parseInt(specMatch[2], 10);
+      if (suffixLength > 0 && size > 0) {
+        ranges.push({ start: Math.max(0, size - suffixLength), end: size - 1 });
+      }
+      continue;
+    }
+
+    const start = parseInt(specMatch[1], 10);
+    const end = specMatch[2] === '' ? Infinity : parseInt(specMatch[2], 10);
+
+    if (end < start) {
+      return { type: 'none' };
+    }
+
+    // Ranges starting past the end are unsatisfiable but don't invalidate the others
+    if (start < size) {
+      ranges.push({ start, end: Math.min(end, size - 1) });
+    }
+  }
+
+  if (ranges.length === 0) {
+    return { type: 'unsatisfiable' };
+  }
+
+  // Repeated or overlapping ranges would make the response larger than the file itself
+  const requestedBytes = ranges.reduce((total, range) => total + range.end - range.start + 1, 0);
+  if (requestedBytes > size) {
+    return { type: 'none' };
+  }
+
+  return { type: 'ranges', ranges: mergeRanges(ranges) };
+}
+
+/**
+ * Sort ranges and merge those that overlap or touch
+ */
+function mergeRanges(ranges: ByteRange[]): ByteRange[] {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start);
+  const merged: ByteRange[] = [{ ...sorted[0] }];
+
+  for (const range of sorted.slice(1)) {
+    const last = merged[merged.length - 1];
+    if (range.start <= last.end + 1) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Whether the ranges together reach both the first and the last byte of a file
+ *
+ * Players and download managers ask for `bytes=0-` first, so this marks the start of a
+ * download without counting every seek.
+ */
+export function reachesBothEnds(ranges: ByteRange[], size: number): boolean {
+  return (
+    ranges.some((range) => range.start === 0) && ranges.some((range) => range.end === size - 1)
+  );
+}
+
+/**
+ * Format a `Content-Range` header value
+ */
+export function formatContentRange(range: ByteRange | undefined, size: number): string {
+  return range ? `bytes ${range.start}-${range.end}/${size}` : `bytes */${size}`;
+}
+
+/**
+ * Layout of a `multipart/byteranges` body: each part header is followed by the bytes of its
+ * range, and `trailer` closes the body
+ */
+export interface MultipartByteranges {
+  contentType: string;
+  parts: Array<{ header: Buffer; range: ByteRange }>;
+  trailer: Buffer;
+  /** Length of the whole body, known before any range is read */
+  length: number;
+}
+
+/**
+ * Lay out a `multipart/byteranges` body for a multi-range response
+ */
+export function buildMultipartByteranges(
+  ranges: ByteRange[],
+  size: number,
+  contentType: string
+): MultipartByteranges {
+  const boundary = randomBytes(12).toString('hex');
+  const trailer = Buffer.from(`\r\n--${boundary}--\r\n`);
+  let length = trailer.length;
+
+  const parts = ranges.map((range) => {
+    const header = Buffer.from(
+      `\r\n--${boundary}\r\n` +
+      `Content-Type: ${contentType}\r\n` +
+      `Content-Range: ${formatContentRange(range, size)}\r\n\r\n`
+    );
+    length += header.length + range.end - range.start + 1;
+    return { header, range };
+  });
+
+  return {
+    contentType: `multipart/byteranges; boundary=${boundary}`,
+    parts,
+    trailer,
+    length,
+  };
+}
@@ -0,0 +1,65 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { URL_SIGNING } from '../../config/constants.js';
+
+export type SignatureCheck = 'valid' | 'missing' | 'expired' | 'invalid';
+
+function computeSignature(
+  secret: string,
+  workflowId: string,
+  fileKey: string,
+  expires: number
+): string {
+  return createHmac(URL_SIGNING.ALGORITHM, secret)
+    .update(`${workflowId}:${fileKey}:${expires}`)
+    .digest('base64url');
+}
+
+/**
+ * Build the query string parameters for a signed download URL
+ * @param expires - Link expiry as a Unix timestamp in seconds
+ */
+export function signFileKey(
+  secret: string,
+  workflowId: string,
+  fileKey: string,
+  expires: number
+): { expires: number; signature: string } {
+  return { expires, signature: computeSignature(secret, workflowId, fileKey, expires) };
+}
+
+/**
+ * Verify the `expires` and `signature` query parameters of a signed download URL
+ *
+ * The workflow ID is part of the signed payload, so a link cannot be replayed against
+ * another workflow's webhook.
+ */
+export function verifyFileKeySignature(
+  secret: string,
+  workflowId: string,
+  fileKey: string,
+  expires: string | undefined,
+  signature: string | undefined
+): SignatureCheck {
+  if (!expires || !signature) {
+    return 'missing';
+  }
+
+  if (!/^\d+$/.test(expires)) {
+    return 'invalid';
+  }
+
+  const expected = Buffer.from(
+    computeSignature(secret, workflowId, fileKey, parseInt(expires, 10))
+  );
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return 'invalid';
+  }
+
+  // Check expiry only after the signature so a forged timestamp can't be probed
+  if (Math.floor(Date.now() / 1000) > parseInt(expires, 10)) {
+    return 'expired';
+  }
+
+  return 'valid';
+}
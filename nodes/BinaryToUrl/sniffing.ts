@@ -0,0 +1,208 @@
+import { CONTENT_SNIFFING } from '../../config/constants.js';
+
+export type SniffingMode = 'off' | 'fillMissing' | 'correct' | 'reject';
+
+interface Signature {
+  mimeType: string;
+  /** Declared types that are consistent with this signature */
+  compatible?: readonly string[];
+  matches(sample: Buffer): boolean;
+}
+
+function startsWith(sample: Buffer, bytes: readonly number[], offset = 0): boolean {
+  return bytes.every((byte, index) => sample[offset + index] === byte);
+}
+
+function hasAscii(sample: Buffer, text: string, offset = 0): boolean {
+  return sample.toString('latin1', offset, offset + text.length) === text;
+}
+
+/** ISO base media (MP4, MOV, AVIF, ...) files start with an `ftyp` box */
+function ftypBrand(sample: Buffer): string | undefined {
+  return hasAscii(sample, 'ftyp', 4) ? sample.toString('latin1', 8, 12) : undefined;
+}
+
+const ZIP_BASED = [
+  'application/zip',
+  'application/x-zip-compressed',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  'application/epub+zip',
+  'application/java-archive',
+];
+
+/**
+ * Binary signatures, checked in order
+ */
+const SIGNATURES: readonly Signature[] = [
+  { mimeType: 'image/png', matches: (s) => startsWith(s, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]) },
+  { mimeType: 'image/jpeg', compatible: ['image/jpg'], matches: (s) => startsWith(s, [0xff, 0xd8, 0xff]) },
+  { mimeType: 'image/gif', matches: (s) => hasAscii(s, 'GIF87a') || hasAscii(s, 'GIF89a') },
+  { mimeType: 'image/webp', matches: (s) => hasAscii(s, 'RIFF') && hasAscii(s, 'WEBP', 8) },
+  { mimeType: 'image/bmp', compatible: ['image/x-ms-bmp'], matches: (s) => hasAscii(s, 'BM') && s.length >= 14 && s.readUInt32LE(6) === 0 },
+  {
+    mimeType: 'image/tiff',
+    matches: (s) => startsWith(s, [0x49, 0x49, 0x2a, 0x00]) || startsWith(s, [0x4d, 0x4d, 0x00, 0x2a]),
+  },
+  { mimeType: 'image/avif', matches: (s) => ['avif', 'avis'].includes(ftypBrand(s) ?? '') },
+  {
+    mimeType: 'video/quicktime',
+    compatible: ['video/mp4'],
+    matches: (s) =>
+      ftypBrand(s) === 'qt  ' || ['moov', 'mdat', 'wide', 'free'].some((atom) => hasAscii(s, atom, 4)),
+  },
+  {
+    mimeType: 'video/mp4',
+    compatible: ['video/quicktime', 'audio/mp4', 'audio/x-m4a', 'video/3gpp'],
+    matches: (s) => ftypBrand(s) !== undefined,
+  },
+  {
+    mimeType: 'video/webm',
+    compatible: ['video/x-matroska', 'audio/webm'],
+    matches: (s) => startsWith(s, [0x1a, 0x45, 0xdf, 0xa3]) && s.includes('webm', 0, 'latin1'),
+  },
+  {
+    mimeType: 'video/x-matroska',
+    compatible: ['video/webm', 'audio/x-matroska'],
+    matches: (s) => startsWith(s, [0x1a, 0x45, 0xdf, 0xa3]),
+  },
+  { mimeType: 'video/x-msvideo', matches: (s) => hasAscii(s, 'RIFF') && hasAscii(s, 'AVI ', 8) },
+  { mimeType: 'audio/wav', compatible: ['audio/x-wav', 'audio/wave'], matches: (s) => hasAscii(s, 'RIFF') && hasAscii(s, 'WAVE', 8) },
+  { mimeType: 'audio/ogg', compatible: ['video/ogg', 'application/ogg'], matches: (s) => hasAscii(s, 'OggS') },
+  { mimeType: 'audio/flac', compatible: ['audio/x-flac'], matches: (s) => hasAscii(s, 'fLaC') },
+  {
+    mimeType: 'audio/mpeg',
+    compatible: ['audio/mp3'],
+    matches: (s) => hasAscii(s, 'ID3') || (s[0] === 0xff && (s[1] & 0xe0) === 0xe0),
+  },
+  { mimeType: 'application/pdf', matches: (s) => hasAscii(s, '%PDF-') },
+  {
+    mimeType: 'application/zip',
+    compatible: ZIP_BASED,
+    matches: (s) => startsWith(s, [0x50, 0x4b, 0x03, 0x04]) || startsWith(s, [0x50, 0x4b, 0x05, 0x06]),
+  },
+  {
+    mimeType: 'application/x-rar-compressed',
+    compatible: ['application/vnd.rar'],
+    matches: (s) => hasAscii(s, 'Rar!\x1a\x07'),
+  },
+  { mimeType: 'application/x-7z-compressed', matches: (s) => startsWith(s, [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c]) },
+];
+
+/** Markup a browser could execute; plain text declarations stay safe thanks to nosniff */
+const MARKUP_SIGNATURES: readonly Signature[] = [
+  {
+    mimeType: 'image/svg+xml',
+    compatible: ['text/plain', 'application/xml', 'text/xml'],
+    matches: (s) => /<svg[\s>]/i.test(markupPrefix(s)),
+  },
+  {
+    mimeType: 'text/html',
+    compatible: ['text/plain', 'application/xhtml+xml'],
+    matches: (s) =>
+      /^<(!doctype\s+html|html|head|body|script|iframe|frameset|style|title|a|div|table|p|br|h1|font|img|object|embed)[\s>/]/i.test(
+        markupPrefix(s).replace(/^(<!--[\s\S]*?-->\s*)+/, '')
+      ),
+  },
+  {
+    mimeType: 'application/xml',
+    compatible: ['text/xml', 'text/plain'],
+    matches: (s) => markupPrefix(s).startsWith('<?xml'),
+  },
+];
+
+/**
+ * Leading text of the sample without BOM and whitespace
+ */
+function markupPrefix(sample: Buffer): string {
+  return sample.toString('utf8').replace(/^\uFEFF/, '').trimStart();
+}
+
+/**
+ * Detect a file's MIME type from its leading bytes
+ *
+ * Returns undefined for content without a recognizable signature, such as plain text, CSV or JSON.
+ */
+export function detectMimeType(data: Buffer): string | undefined {
+  const sample = data.subarray(0, CONTENT_SNIFFING.SAMPLE_SIZE);
+
+  const match =
+    SIGNATURES.find((signature) => signature.matches(sample)) ??
+    MARKUP_SIGNATURES.find((signature) => signature.matches(sample));
+
+  return match?.mimeType;
+}
+
+function findSignature(mimeType: string): Signature | undefined {
+  return [...SIGNATURES, ...MARKUP_SIGNATURES].find((signature) => signature.mimeType === mimeType);
+}
+
+function baseMimeType(contentType: string): string {
+  return contentType.split(';')[0].trim().toLowerCase();
+}
+
+/**
+ * Whether the declared type is consistent with the detected one
+ *
+ * A declared type with a binary signature (e.g. `image/png`) must be detected as such, so a
+ * PNG label on unrecognized bytes is a mismatch too.
+ */
+export function isDeclaredTypeConsistent(declared: string, detected: string | undefined): boolean {
+  const declaredType = baseMimeType(declared);
+
+  if (!detected) {
+    return !SIGNATURES.some((signature) => signature.mimeType === declaredType);
+  }
+  if (declaredType === detected) {
+    return true;
+  }
+
+  return findSignature(detected)?.compatible?.includes(declaredType) ?? false;
+}
+
+/**
+ * Whether a declared type carries no information about the content
+ */
+export function isMissingMimeType(contentType: string | undefined): boolean {
+  return !contentType || baseMimeType(contentType) === 'application/octet-stream';
+}
+
+export type SniffResult =
+  | { type: 'ok'; contentType: string }
+  | { type: 'mismatch'; declared: string; detected: string | undefined };
+
+/**
+ * Apply a sniffing mode to a declared type
+ *
+ * `fillMissing` only replaces empty or `application/octet-stream` types, `correct` also
+ * replaces inconsistent types (falling back to `application/octet-stream` when nothing is
+ * detected) and `reject` reports inconsistent types as a mismatch.
+ */
+export function resolveContentType(
+  declared: string | undefined,
+  data: Buffer,
+  mode: SniffingMode
+): SniffResult {
+  const fallback = declared || CONTENT_SNIFFING.FALLBACK_MIME_TYPE;
+  if (mode === 'off') {
+    return { type: 'ok', contentType: fallback };
+  }
+
+  const detected = detectMimeType(data);
+
+  if (isMissingMimeType(declared)) {
+    return { type: 'ok', contentType: detected ?? fallback };
+  }
+
+  const declaredType = declared as string;
+  if (mode === 'fillMissing' || isDeclaredTypeConsistent(declaredType, detected)) {
+    return { type: 'ok', contentType: declaredType };
+  }
+
+  if (mode === 'correct') {
+    return { type: 'ok', contentType: detected ?? CONTENT_SNIFFING.FALLBACK_MIME_TYPE };
+  }
+
+  return { type: 'mismatch', declared: declaredType, detected };
+}